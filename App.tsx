@@ -1,20 +1,40 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   SearchIcon, UserIcon, GlobeIcon, ArrowRightIcon, 
   HistoryIcon, SettingsIcon, LayersIcon, CreditCardIcon, SparklesIcon, MenuIcon,
-  EditIcon, TrashIcon, PlusIcon, CheckIcon, XIcon, LogOutIcon, FolderIcon, ShieldIcon
+  EditIcon, TrashIcon, PlusIcon, CheckIcon, XIcon, LogOutIcon, FolderIcon, ShieldIcon, RefreshIcon, UploadIcon
 } from './components/Icons';
-import { generateSearchResponse } from './services/geminiService';
+import { MarkdownAnswer } from './components/MarkdownAnswer';
+import { AttributedAnswer } from './components/AttributedAnswer';
+import { WorkspaceDetail } from './components/WorkspaceDetail';
+import { AddToWorkspaceMenu } from './components/AddToWorkspaceMenu';
+import { TwoFactorSetup } from './components/TwoFactorSetup';
+import { SearchModePicker, searchModeLabel } from './components/SearchModePicker';
+import { ResearchProgressPanel } from './components/ResearchProgressPanel';
+import { SearchErrorCard } from './components/SearchErrorCard';
+import { UngroundedBadge, UNGROUNDED_LABELS } from './components/UngroundedBadge';
+import { ShareThreadMenu } from './components/ShareThreadMenu';
+import { ExportMenu } from './components/ExportMenu';
+import { SharedThreadView } from './components/SharedThreadView';
+import { HistoryView } from './components/HistoryView';
+import { FollowUpChips } from './components/FollowUpChips';
+import { DEFAULT_PREFERENCES, fetchPreferences, savePreferences, toPreferences } from './services/preferencesService';
+import { generateSearchResponse, generateResearchReport, suggestFollowUps, fetchTrendingQuestions, SearchError, SearchOptions, GenerationResult, ChatTurn } from './services/geminiService';
+import { createStreamBuffer } from './services/streamBuffer';
+import { fetchThreadMessages, saveThreadMessages, saveFollowUps, summarizeThread } from './services/threadService';
+import { fetchHistoryPage, fetchHomeSuggestions, HOME_SUGGESTIONS, NO_HISTORY_FILTERS } from './services/historyService';
+import { ExportFormat, StreekXExport, ImportError, threadExport, workspaceExport, threadToMarkdown, workspaceToMarkdown, markdownToHtml, parseExport, importedMessages, exportFileName, downloadFile } from './services/exportService';
+import { sharedSlugFromHash } from './services/shareService';
+import { ThreadTree, emptyThread, addMessage, updateMessage, threadFromMessages, activePath, siblingsOf, selectMessage, newMessageId } from './services/threadTree';
+import { ResearchCancelledError } from './services/researchAgent';
+import { sourceHost } from './services/attribution';
 import { supabase } from './services/supabaseClient';
-import { ChatMessage, ViewState, HistoryItem, UserProfile, Workspace, UserPreferences, AccountStats, AppPhase } from './types';
-
-// --- Crypto Helper for Client-Side Hashing ---
-async function hashPassword(password: string): Promise<string> {
-  const msgBuffer = new TextEncoder().encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-}
+import { getSession, signIn, signUp, signOut, changePassword, completeMfaSignIn } from './services/authService';
+import {
+  fetchWorkspaceContents, addAnswerToWorkspace, removeWorkspaceThread, removeWorkspaceSource,
+  addWorkspaceNote, updateWorkspaceNote, deleteWorkspaceNote, importWorkspace
+} from './services/workspaceService';
+import { ChatMessage, ViewState, HistoryItem, UserProfile, Workspace, WorkspaceContents, WorkspaceContext, UserPreferences, AccountStats, AppPhase, QuotaStatus, SearchMode, SearchFailure } from './types';
 
 // --- Helper Component: Search Input ---
 interface SearchInputProps {
@@ -23,9 +43,10 @@ interface SearchInputProps {
   onSearch: () => void;
   large?: boolean;
   loading?: boolean;
+  onStop?: () => void; // While loading, swaps the spinner for a stop button
 }
 
-const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, onSearch, large = false, loading = false }) => {
+const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, onSearch, large = false, loading = false, onStop }) => {
   return (
     <div className={`relative w-full transition-all duration-300 ${large ? 'max-w-2xl' : 'max-w-xl'}`}>
       <div className={`absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none`}>
@@ -45,6 +66,15 @@ const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, onSearch, la
         onKeyDown={(e) => e.key === 'Enter' && onSearch()}
       />
       <div className="absolute inset-y-0 right-2 flex items-center">
+        {loading && onStop ? (
+          <button
+            onClick={onStop}
+            title="Stop generating"
+            className="p-2 rounded-full text-streek-neon hover:bg-streek-neon/10 transition-colors"
+          >
+            <div className="w-4 h-4 m-0.5 rounded-sm bg-current"></div>
+          </button>
+        ) : (
         <button 
           onClick={onSearch}
           disabled={loading || !value.trim()}
@@ -59,11 +89,72 @@ const SearchInput: React.FC<SearchInputProps> = ({ value, onChange, onSearch, la
             <ArrowRightIcon className="w-5 h-5" />
           )}
         </button>
+        )}
       </div>
     </div>
   );
 };
 
+// --- Helper Component: Version Switcher ---
+// "‹ 2/3 ›" arrows on a user turn that was regenerated or edited; hidden while there's one version
+interface VersionSwitcherProps {
+  ids: string[];
+  index: number;
+  disabled: boolean;
+  onSelect: (id: string) => void;
+}
+
+const VersionSwitcher: React.FC<VersionSwitcherProps> = ({ ids, index, disabled, onSelect }) => {
+  if (ids.length < 2) return null;
+  return (
+    <div className="flex items-center gap-1">
+      <button onClick={() => onSelect(ids[index - 1])} disabled={disabled || index === 0} className="px-1 hover:text-white disabled:opacity-40">
+        ‹
+      </button>
+      <span>{index + 1}/{ids.length}</span>
+      <button onClick={() => onSelect(ids[index + 1])} disabled={disabled || index === ids.length - 1} className="px-1 hover:text-white disabled:opacity-40">
+        ›
+      </button>
+    </div>
+  );
+};
+
+// --- Helper Component: Import Button ---
+// Picks a StreekX JSON export (a thread or a workspace) to import
+const ImportButton = ({ onImport, className }: { onImport: (file: File) => void; className: string }) => (
+  <label className={`cursor-pointer ${className}`}>
+    <UploadIcon className="w-5 h-5" /> Import
+    <input
+      type="file"
+      accept=".json,application/json"
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (file) onImport(file);
+      }}
+    />
+  </label>
+);
+
+// --- Helper Component: Profile Avatar ---
+// With data saver on, the avatar image isn't downloaded; the user's initial is shown instead
+interface ProfileAvatarProps {
+  src?: string;
+  name?: string;
+  dataSaver: boolean;
+  className?: string;
+}
+const ProfileAvatar: React.FC<ProfileAvatarProps> = ({ src, name, dataSaver, className = '' }) => (
+  dataSaver || !src ? (
+    <div className="w-full h-full flex items-center justify-center bg-gradient-to-tr from-streek-glow to-streek-neon text-streek-black font-bold uppercase">
+      {(name || '?').charAt(0)}
+    </div>
+  ) : (
+    <img src={src} alt={name || 'Avatar'} className={`w-full h-full object-cover ${className}`} />
+  )
+);
+
 // --- Helper Component: Box Button for Full Screen Menu ---
 interface BoxButtonProps {
   icon: React.ReactNode;
@@ -211,6 +302,9 @@ const AuthFormScreen = ({
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  // Set once the password is accepted for an account with two-factor auth
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     setFormData({ ...formData, [e.target.name]: e.target.value });
@@ -237,63 +331,17 @@ const AuthFormScreen = ({
     }
 
     try {
-      // 1. Hash the password on the client
-      const hashedPassword = await hashPassword(formData.password);
-
+      // Credentials are verified by the auth edge function, which returns a signed session token
       if (mode === 'signup') {
-         // 2a. Signup: Insert into 'users' table
-         const avatarUrl = `https://ui-avatars.com/api/?name=${encodeURIComponent(formData.name)}&background=D4FF5B&color=0F0F0F`;
-         
-         const { data, error: insertError } = await supabase
-           .from('users')
-           .insert([{
-             streekx_id: displayStreekxId,
-             password_hash: hashedPassword,
-             full_name: formData.name,
-             avatar_url: avatarUrl,
-             phone: formData.phone,
-             gender: formData.gender,
-             dob: formData.dob,
-             bio: 'New StreekX Explorer'
-           }])
-           .select()
-           .single();
-
-         if (insertError) {
-           if (insertError.code === '23505') { // Unique violation
-             setError("This StreekX ID is already taken. Please login instead.");
-             setLoading(false);
-             return;
-           }
-           throw insertError;
-         }
-
-         if (data) {
-           localStorage.setItem('streekx_session_id', data.id);
-           setSuccess('Identity created successfully!');
-           setTimeout(onComplete, 1000);
-         }
-
+         await signUp({ ...formData, streekxId: displayStreekxId });
+         setSuccess('Identity created successfully!');
+         setTimeout(onComplete, 1000);
       } else {
-         // 2b. Login: Query 'users' table
-         const { data, error: fetchError } = await supabase
-            .from('users')
-            .select('*')
-            .eq('streekx_id', displayStreekxId)
-            .eq('password_hash', hashedPassword)
-            .maybeSingle();
-
-         if (fetchError) {
-             console.error("Supabase Login Error:", fetchError);
-             throw new Error("Connection error. Please try again.");
-         }
-
-         if (!data) {
-             throw new Error("Invalid StreekX ID or Password.");
+         const result = await signIn(displayStreekxId, formData.password);
+         if ('mfaToken' in result) {
+           setMfaToken(result.mfaToken);
+           return;
          }
-         
-         // Login Success
-         localStorage.setItem('streekx_session_id', data.id);
          setSuccess('Access Granted.');
          setTimeout(onComplete, 800);
       }
@@ -305,6 +353,29 @@ const AuthFormScreen = ({
     }
   };
 
+  const handleMfaSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaToken || !mfaCode.trim()) return;
+    setLoading(true);
+    setError('');
+
+    try {
+      await completeMfaSignIn(mfaToken, mfaCode.trim());
+      setSuccess('Access Granted.');
+      setTimeout(onComplete, 800);
+    } catch (err: any) {
+      console.error("Auth Error:", err);
+      setError(err.message || "Authentication failed.");
+      // The challenge is short-lived; once it expires the password has to be entered again
+      if (err.message?.includes("expired")) {
+        setMfaToken(null);
+        setMfaCode('');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="fixed inset-0 bg-streek-black z-[95] flex flex-col p-6 overflow-y-auto animate-in fade-in zoom-in-95 duration-300">
        <button onClick={onBack} className="self-start p-2 text-streek-muted hover:text-white mb-6">
@@ -314,7 +385,7 @@ const AuthFormScreen = ({
        <div className="w-full max-w-md mx-auto my-auto">
           <h2 className="text-3xl font-display font-bold text-white mb-8">
             {mode === 'signup' && 'Create Identity'}
-            {mode === 'login' && 'Welcome Back'}
+            {mode === 'login' && (mfaToken ? 'Verify Identity' : 'Welcome Back')}
           </h2>
           
           {success && (
@@ -340,8 +411,36 @@ const AuthFormScreen = ({
             </div>
           )}
 
+          {/* TWO-FACTOR STEP */}
+          {!success && mfaToken && (
+            <form onSubmit={handleMfaSubmit} className="space-y-5">
+              <div className="space-y-1">
+                <label className="text-xs uppercase text-streek-muted font-bold tracking-wider">Authentication Code</label>
+                <input
+                  type="text" required autoFocus
+                  className="w-full bg-streek-card border border-[#333] focus:border-streek-neon rounded-lg p-3 text-white outline-none transition-colors tracking-widest"
+                  placeholder="123456"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                />
+                <p className="text-[10px] text-streek-muted">Enter the code from your authenticator app, or one of your recovery codes.</p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-streek-neon text-streek-black font-bold py-4 rounded-xl hover:brightness-110 transition-all mt-6 disabled:opacity-50 flex justify-center items-center gap-2"
+              >
+                {loading && <div className="w-4 h-4 border-2 border-streek-black border-t-transparent rounded-full animate-spin"></div>}
+                {loading ? 'Verifying...' : 'Verify'}
+              </button>
+            </form>
+          )}
+
           {/* SIGNUP / LOGIN FORM */}
-          {!success && (
+          {!success && !mfaToken && (
             <form onSubmit={handleSubmit} className="space-y-5">
               {mode === 'signup' && (
                 <div className="space-y-1">
@@ -444,7 +543,7 @@ const AuthFormScreen = ({
           <div className="text-center mt-4">
              <button 
                  type="button"
-                 onClick={() => onSwitchMode(mode === 'login' ? 'signup' : 'login')}
+                 onClick={() => { setMfaToken(null); onSwitchMode(mode === 'login' ? 'signup' : 'login'); }}
                  className="text-streek-muted text-sm hover:text-white transition-colors"
              >
                  {mode === 'login' ? "New to StreekX? Create Identity" : "Already have an ID? Sign In"}
@@ -463,15 +562,44 @@ export default function App() {
 
   const [query, setQuery] = useState('');
   const [currentView, setCurrentView] = useState<ViewState>('home');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Every version of every turn in the open thread; `messages` is the branch being shown
+  const [thread, setThread] = useState<ThreadTree>(emptyThread);
+  const messages = useMemo(() => activePath(thread), [thread]);
   const [isLoading, setIsLoading] = useState(false);
   const [userMenuOpen, setUserMenuOpen] = useState(false);
+  // Source card highlighted by hovering or clicking an inline citation in an answer
+  const [activeCitation, setActiveCitation] = useState<{ msgIdx: number; index: number } | null>(null);
+  // Answers currently shown in the per-sentence fact-check view
+  const [factCheckMessages, setFactCheckMessages] = useState<string[]>([]);
   
+  // Mode for the next query; reopening a thread restores the mode it was run in
+  const [searchMode, setSearchMode] = useState<SearchMode>('quick');
+  // Stops the answer (or Deep Research run) in progress
+  const searchAbortRef = useRef<AbortController | null>(null);
+  // Set when the shown branch may differ from the search session's history (see runTurn)
+  const branchChangedRef = useRef(false);
+  // Turns in the open thread that weren't stored (see savedParentId)
+  const unsavedTurnsRef = useRef<Set<string>>(new Set());
+  // User turn being edited before it is resent as a new version
+  const [editingTurn, setEditingTurn] = useState<{ index: number; draft: string } | null>(null);
+
   // -- Session State for Perplexity-like flow --
   const [sessionId, setSessionId] = useState<string>(() => crypto.randomUUID ? crypto.randomUUID() : Date.now().toString());
 
+  // -- Shared thread opened from a public link (#/share/<slug>) --
+  const [sharedSlug, setSharedSlug] = useState<string | null>(() => sharedSlugFromHash(window.location.hash));
+
   // -- State for Search History --
+  // The latest threads, for the profile page; the History view pages through the rest itself
   const [searchHistory, setSearchHistory] = useState<HistoryItem[]>([]);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  // Home page chips: what people are searching for today (see fetchTrendingQuestions), or once
+  // a signed-in user's are loaded, follow-ups from their recent answers (see fetchHomeSuggestions)
+  const [trendingQuestions, setTrendingQuestions] = useState<string[]>([]);
+  const [homeSuggestions, setHomeSuggestions] = useState<string[] | null>(null);
+  // Loaded once per visit, by whichever of the two needs them first
+  const trendingRef = useRef<Promise<string[]> | null>(null);
+  const loadTrendingQuestions = () => (trendingRef.current ??= fetchTrendingQuestions());
 
   // -- Custom Session Management --
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -484,25 +612,28 @@ export default function App() {
 
   // -- Edit Account State --
   const [isEditingAccount, setIsEditingAccount] = useState(false);
+  const [twoFactorFlow, setTwoFactorFlow] = useState<'enroll' | 'disable' | null>(null);
   const [tempAccount, setTempAccount] = useState<{name: string, phone: string}>({ name: '', phone: '' });
   
   // -- Change Password State --
   const [isChangingPassword, setIsChangingPassword] = useState(false);
-  const [passwordForm, setPasswordForm] = useState({ new: '', confirm: '' });
+  const [passwordForm, setPasswordForm] = useState({ current: '', new: '', confirm: '', code: '' });
 
   // -- Workspaces (Formerly Projects) --
   const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
   const [isAddingWorkspace, setIsAddingWorkspace] = useState(false);
   const [newWorkspaceName, setNewWorkspaceName] = useState('');
   const [newWorkspaceDesc, setNewWorkspaceDesc] = useState('');
+  const [newWorkspaceInstructions, setNewWorkspaceInstructions] = useState('');
+  // Workspace opened in the detail view, and its threads / sources / notes
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [workspaceContents, setWorkspaceContents] = useState<WorkspaceContents | null>(null);
 
-  // -- Preferences --
-  const [preferences, setPreferences] = useState<UserPreferences>({
-    safeSearch: true,
-    notifications: false,
-    highContrast: false,
-    dataSaver: false,
-  });
+  // -- Preferences (stored in user_preferences for signed-in users) --
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  // Realtime callbacks are bound once per session, so they read preferences through a ref
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
 
   // -- Account Stats --
   const [accountStats, setAccountStats] = useState<AccountStats>({
@@ -514,26 +645,40 @@ export default function App() {
 
   // Check Local Session on Mount
   useEffect(() => {
-    const storedSessionId = localStorage.getItem('streekx_session_id');
-    if (storedSessionId) {
-      setCurrentUserId(storedSessionId);
+    const session = getSession();
+    if (session) {
+      setCurrentUserId(session.userId);
       setIsLoggedIn(true);
-      fetchUserData(storedSessionId);
+      fetchUserData(session.userId);
     } else {
       setIsLoggedIn(false);
     }
   }, [appPhase]);
 
+  useEffect(() => {
+    loadTrendingQuestions().then(setTrendingQuestions);
+  }, []);
+
+  // A shared link pasted into an open tab only changes the hash
+  useEffect(() => {
+    const onHashChange = () => setSharedSlug(sharedSlugFromHash(window.location.hash));
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
   // -- REALTIME SUBSCRIPTIONS --
   useEffect(() => {
     if (!currentUserId || !isLoggedIn) return;
 
     // WORKSPACES Channel (Changed from projects)
     const workspaceChannel = supabase.channel(`workspaces-${currentUserId}`)
-      .on(
+      .on<{ name?: string }>(
         'postgres_changes', 
         { event: '*', schema: 'public', table: 'workspaces', filter: `user_id=eq.${currentUserId}` },
-        () => fetchWorkspaces(currentUserId)
+        (payload) => {
+          fetchWorkspaces(currentUserId);
+          if (payload.eventType !== 'DELETE') notify('Workspace updated', payload.new.name || 'A collection changed');
+        }
       )
       .subscribe();
 
@@ -542,7 +687,13 @@ export default function App() {
       .on(
         'postgres_changes', 
         { event: '*', schema: 'public', table: 'messages', filter: `user_id=eq.${currentUserId}` },
-        () => fetchHistory(currentUserId)
+        () => fetchHistory()
+      )
+      // Generated titles arrive after the answer; renames may come from another device
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'threads', filter: `user_id=eq.${currentUserId}` },
+        () => fetchHistory()
       )
       .subscribe();
 
@@ -559,23 +710,36 @@ export default function App() {
                      name: newUser.full_name,
                      bio: newUser.bio,
                      phone: newUser.phone,
+                     totpEnabled: newUser.totp_enabled,
                  }) : null);
              }
         }
       )
       .subscribe();
 
+    // Preferences Channel (changes made on another device)
+    const preferencesChannel = supabase.channel(`preferences-${currentUserId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'user_preferences', filter: `user_id=eq.${currentUserId}` },
+        (payload) => {
+             if (payload.new && 'user_id' in payload.new) setPreferences(toPreferences(payload.new));
+        }
+      )
+      .subscribe();
+
     return () => {
       supabase.removeChannel(workspaceChannel);
       supabase.removeChannel(messagesChannel);
       supabase.removeChannel(profileChannel);
+      supabase.removeChannel(preferencesChannel);
     };
   }, [currentUserId, isLoggedIn]);
 
   const fetchUserData = async (userId: string) => {
      const { data: user, error } = await supabase
        .from('users')
-       .select('*')
+       .select('id, streekx_id, full_name, avatar_url, bio, phone, totp_enabled, created_at')
        .eq('id', userId)
        .single();
 
@@ -585,33 +749,175 @@ export default function App() {
           streekx_id: user.streekx_id,
           avatar: user.avatar_url || 'https://picsum.photos/200/200',
           bio: user.bio,
-          phone: user.phone
+          phone: user.phone,
+          totpEnabled: user.totp_enabled
         });
      } else if (error) {
         if(error.code === 'PGRST116') handleLogout(); 
      }
 
-     fetchHistory(userId);
+     fetchHistory();
+     loadTrendingQuestions()
+       .then(trending => fetchHomeSuggestions(userId, trending))
+       .then(setHomeSuggestions)
+       .catch(err => console.error("Failed to load suggestions:", err));
      fetchWorkspaces(userId);
+     fetchUsage();
+     fetchPreferences(userId)
+       .then(setPreferences)
+       .catch(err => console.error("Failed to load preferences:", err));
   };
 
-  const fetchHistory = async (userId: string) => {
-    // Fetch from 'messages' table now
-    const { data: history } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
-    
-    if (history) {
-        // Filter to show only user queries in history list for cleanliness
-        const userQueries = history.filter((h: any) => h.role === 'user');
-        setSearchHistory(userQueries.map((h: any) => ({
-           id: h.id,
-           query: h.content, // Map 'content' column to 'query' prop
-           date: new Date(h.created_at).toLocaleDateString()
-        })));
-        setAccountStats(prev => ({...prev, queriesUsed: userQueries.length}));
+  useEffect(() => {
+    document.documentElement.classList.toggle('high-contrast', preferences.highContrast);
+  }, [preferences.highContrast]);
+
+  // Browser notification for updates that arrive while StreekX is in a background tab
+  const notify = (title: string, body: string) => {
+    if (!preferencesRef.current.notifications || !('Notification' in window)) return;
+    if (Notification.permission !== 'granted' || !document.hidden) return;
+    new Notification(title, { body });
+  };
+
+  const updatePreferences = async (patch: Partial<UserPreferences>) => {
+    if (patch.notifications) {
+      const permission = 'Notification' in window ? await Notification.requestPermission() : 'denied';
+      if (permission !== 'granted') {
+        alert("Notifications are blocked for this site. Allow them in your browser settings to turn this on.");
+        return;
+      }
+    }
+
+    const previous = preferences;
+    const next = { ...preferences, ...patch };
+    setPreferences(next);
+    if (!isLoggedIn || !currentUserId) return;
+
+    try {
+      await savePreferences(currentUserId, next);
+    } catch (err) {
+      console.error("Failed to save preferences:", err);
+      setPreferences(previous);
+      alert("Failed to save preferences.");
+    }
+  };
+
+  const applyUsage = (usage: QuotaStatus) => {
+    setAccountStats(prev => ({
+      ...prev,
+      // Guest usage is tracked separately and never replaces a signed-in user's plan
+      plan: usage.plan === 'Guest' ? prev.plan : usage.plan as AccountStats['plan'],
+      queriesUsed: usage.used,
+      queriesLimit: usage.limit,
+      resetsAt: usage.resetsAt
+    }));
+  };
+
+  // Quota for the current period, counted from the usage ledger the search function writes
+  const fetchUsage = async () => {
+    const { data: usage, error } = await supabase.rpc('get_my_usage');
+    if (usage) {
+        applyUsage(usage as QuotaStatus);
+    } else if (error) {
+        console.error("Failed to load usage:", error);
+    }
+  };
+
+  const fetchHistory = async () => {
+    setHistoryVersion(v => v + 1);
+    try {
+      const { items } = await fetchHistoryPage(NO_HISTORY_FILTERS, 0, 5); // As many as the profile page lists
+      setSearchHistory(items);
+    } catch (err) {
+      console.error("Failed to load history:", err);
+    }
+  };
+
+  // Rebuild a past thread from the stored user and model rows, without calling Gemini again
+  const openThread = async (threadSessionId: string | null, fallbackQuery: string) => {
+    setUserMenuOpen(false);
+    if (!threadSessionId || !currentUserId) {
+       // Legacy rows were saved without a session, so there is nothing to restore
+       handleSearch(fallbackQuery);
+       return;
+    }
+
+    const rows = await fetchThreadMessages(currentUserId, threadSessionId).catch((err) => {
+       console.error("Failed to load thread:", err);
+       return [];
+    });
+    if (rows.length === 0) {
+       handleSearch(fallbackQuery);
+       return;
+    }
+
+    setSessionId(threadSessionId);
+    setFactCheckMessages([]);
+    setEditingTurn(null);
+    setThread(threadFromMessages(rows));
+    setSearchMode(rows[rows.length - 1].mode || 'quick');
+    setQuery('');
+    setCurrentView('search');
+  };
+
+  // -- Export / Import --
+  const downloadExport = async (title: string, format: ExportFormat, data: StreekXExport, toMarkdown: () => string) => {
+    const content = format === 'json' ? JSON.stringify(data, null, 2)
+      : format === 'html' ? await markdownToHtml(title, toMarkdown())
+      : toMarkdown();
+    downloadFile(exportFileName(title, format), content, format);
+  };
+
+  // Documents show the branch on screen; JSON keeps every version of every turn
+  const handleExportThread = (format: ExportFormat) => {
+    const title = messages[0]?.content || 'StreekX thread';
+    return downloadExport(title, format, threadExport(title, Object.values(thread.nodes)), () => threadToMarkdown(threadExport(title, messages)));
+  };
+
+  const handleExportWorkspace = async (workspace: Workspace, format: ExportFormat) => {
+    if (!currentUserId) return;
+    const contents = await fetchWorkspaceContents(workspace.id);
+    const threads = await Promise.all(contents.threads.map(async (t) => ({
+      title: t.title,
+      messages: await fetchThreadMessages(currentUserId, t.sessionId)
+    })));
+    const data = workspaceExport(workspace, contents, threads);
+    await downloadExport(workspace.name, format, data, () => workspaceToMarkdown(data));
+  };
+
+  // An imported thread opens as a new session (stored for signed-in users); a workspace is
+  // recreated with its threads, notes and pinned sources
+  const handleImportFile = async (file: File) => {
+    setUserMenuOpen(false);
+    try {
+      const data = parseExport(await file.text());
+      if (data.type === 'streekx.workspace') {
+        if (!isLoggedIn || !currentUserId) {
+          alert("Please sign in to import workspaces.");
+          return;
+        }
+        const workspaceId = await importWorkspace(currentUserId, data);
+        await fetchWorkspaces(currentUserId);
+        setActiveWorkspaceId(workspaceId);
+        setCurrentView('workspace');
+        return;
+      }
+
+      const imported = importedMessages(data);
+      if (imported.length === 0) throw new ImportError("This export has no turns to import.");
+      const newId = crypto.randomUUID();
+      if (isLoggedIn && currentUserId) await saveThreadMessages(currentUserId, newId, imported);
+      setSessionId(newId);
+      setFactCheckMessages([]);
+      setEditingTurn(null);
+      setThread(threadFromMessages(imported));
+      // The search session can't restore a guest's turns, so the next query sends them
+      branchChangedRef.current = true;
+      setQuery('');
+      setCurrentView('search');
+    } catch (err) {
+      console.error("Failed to import:", err);
+      alert(err instanceof ImportError ? err.message : "Failed to import");
     }
   };
 
@@ -629,18 +935,22 @@ export default function App() {
            name: p.name,
            description: p.description,
            status: p.status as 'active' | 'archived',
+           instructions: p.instructions || '',
            lastModified: new Date(p.last_modified).toLocaleDateString()
         })));
     }
   };
 
   const handleLogout = async () => {
-     localStorage.removeItem('streekx_session_id');
+     signOut();
      setIsLoggedIn(false);
      setCurrentUserId(null);
      setUserProfile(null);
      setSearchHistory([]);
+     setHomeSuggestions(null);
      setWorkspaces([]);
+     setActiveWorkspaceId(null);
+     setPreferences(DEFAULT_PREFERENCES);
      setCurrentView('home');
      setUserMenuOpen(false);
   };
@@ -660,14 +970,17 @@ export default function App() {
        alert("Password must be at least 6 characters");
        return;
     }
-    const hashedPassword = await hashPassword(passwordForm.new);
-    const { error } = await supabase.from('users').update({ password_hash: hashedPassword }).eq('id', currentUserId);
-    if (error) {
-       alert("Error updating password: " + error.message);
-    } else {
-       alert("Password updated successfully!");
+    if (userProfile?.totpEnabled && !passwordForm.code.trim()) {
+       alert("Enter a code from your authenticator app");
+       return;
+    }
+    try {
+       await changePassword(passwordForm.current, passwordForm.new, userProfile?.totpEnabled ? passwordForm.code : undefined);
+       alert("Password updated successfully! Other devices have been signed out.");
        setIsChangingPassword(false);
-       setPasswordForm({ new: '', confirm: '' });
+       setPasswordForm({ current: '', new: '', confirm: '', code: '' });
+    } catch (err: any) {
+       alert("Error updating password: " + err.message);
     }
   };
 
@@ -685,75 +998,250 @@ export default function App() {
     setIsEditingAccount(false);
   };
 
-  const handleSearch = async (overrideQuery?: string) => {
+  // `workspace` starts a new thread inside that workspace, using its saved research as context
+  const handleSearch = async (overrideQuery?: string, workspace?: Workspace) => {
     const searchQuery = overrideQuery || query;
     if (!searchQuery.trim() || isLoading) return;
 
     let activeSessionId = sessionId;
+    let workspaceContext: WorkspaceContext | undefined;
+
+    if (workspace) {
+       workspaceContext = {
+         name: workspace.name,
+         description: workspace.description,
+         instructions: workspace.instructions,
+         notes: workspaceContents?.notes.map(n => n.content) || [],
+         sources: workspaceContents?.sources.map(({ title, uri }) => ({ title, uri })) || []
+       };
+    }
     
-    if (currentView === 'home') {
+    const newThread = currentView === 'home' || !!workspace;
+    if (newThread) {
        const newId = crypto.randomUUID ? crypto.randomUUID() : Date.now().toString();
        setSessionId(newId);
        activeSessionId = newId;
-       const userMsg: ChatMessage = { role: 'user', content: searchQuery };
-       const aiPlaceholder: ChatMessage = { role: 'model', content: '', isStreaming: true };
-       setMessages([userMsg, aiPlaceholder]);
-    } else {
-       const userMsg: ChatMessage = { role: 'user', content: searchQuery };
-       const aiPlaceholder: ChatMessage = { role: 'model', content: '', isStreaming: true };
-       setMessages(prev => [...prev, userMsg, aiPlaceholder]);
+       setFactCheckMessages([]);
+       setEditingTurn(null);
     }
 
+    const parent = newThread ? undefined : messages[messages.length - 1];
+    await runTurn(searchQuery, activeSessionId, parent ? parent.id : null, newThread ? [] : messages, { newThread, workspace, workspaceContext });
+  };
+
+  // Regenerate (same text) or edit-and-resend the user turn at `index` as a new version of it.
+  // The new version is a sibling of that turn, so the earlier ones stay browsable with the version arrows.
+  const resendTurn = async (index: number, content: string, retryToken?: string) => {
+    if (!content.trim() || isLoading) return;
+
+    setEditingTurn(null);
+    branchChangedRef.current = true;
+    await runTurn(content.trim(), sessionId, messages[index].parentId, messages.slice(0, index), { retryToken, mode: messages[index].mode });
+  };
+
+  // Answers that failed, were cancelled or came back empty aren't saved, nor are questions whose
+  // insert failed (or their answers), so a turn asked after one is stored under the nearest
+  // saved turn above it instead
+  const savedParentId = (parentId: string | null) => {
+    let id = parentId;
+    while (id && unsavedTurnsRef.current.has(id)) id = thread.nodes[id]?.parentId ?? null;
+    return id;
+  };
+
+  const handleStop = () => searchAbortRef.current?.abort();
+
+  // Ask `searchQuery` as a new turn under `parentId` (after the `earlier` turns of the branch),
+  // stream the answer into the thread and save both turns. New questions use the picked mode;
+  // a resent turn keeps the mode it was first asked in.
+  const runTurn = async (
+    searchQuery: string,
+    activeSessionId: string,
+    parentId: string | null,
+    earlier: ChatMessage[],
+    { newThread, workspace, workspaceContext, retryToken, mode = searchMode }: { newThread?: boolean; workspace?: Workspace; workspaceContext?: WorkspaceContext; retryToken?: string; mode?: SearchMode }
+  ) => {
+    const userMsg: ChatMessage = { id: newMessageId(), parentId, role: 'user', content: searchQuery, mode };
+    const answerId = newMessageId();
+    unsavedTurnsRef.current.add(answerId);
+    setThread(prev => addMessage(
+      addMessage(newThread ? emptyThread() : prev, userMsg),
+      { id: answerId, parentId: userMsg.id, role: 'model', content: '', mode, isStreaming: true }
+    ));
     setCurrentView('search');
     setIsLoading(true);
     setUserMenuOpen(false);
 
     if (isLoggedIn && currentUserId) {
          // Insert into 'messages' table
-         await supabase.from('messages').insert([{
+         const { error } = await supabase.from('messages').insert([{
+             id: userMsg.id,
+             parent_id: savedParentId(parentId),
              user_id: currentUserId,
              content: searchQuery,
              role: 'user',
-             session_id: activeSessionId
+             session_id: activeSessionId,
+             mode
          }]);
+         if (error) {
+            console.error("Failed to save question:", error);
+            unsavedTurnsRef.current.add(userMsg.id);
+            alert("This question couldn't be saved, so it and its answer won't be in your history.");
+         }
     }
 
+    await answerTurn(userMsg, answerId, activeSessionId, newThread ? [] : earlier, { newThread, workspace, workspaceContext, retryToken });
+    setQuery('');
+  };
+
+  // Ask an offline answer's question again as a new version of the turn, now that live search
+  // may be back; the old answer stays browsable with the version arrows
+  const retryLive = (answer: ChatMessage) => {
+    const index = messages.findIndex(m => m.id === answer.parentId);
+    if (index < 0) return;
+    resendTurn(index, messages[index].content, answer.retryToken);
+  };
+
+  // Ask the question of a failed answer again, streaming the new attempt into the same answer
+  const retryAnswer = async (answer: ChatMessage) => {
+    const userMsg = answer.parentId ? thread.nodes[answer.parentId] : undefined;
+    if (!userMsg || isLoading) return;
+
+    setThread(prev => updateMessage(prev, answer.id, { content: '', error: undefined, stopped: undefined, research: undefined, isStreaming: true }));
+    setIsLoading(true);
+    await answerTurn(userMsg, answer.id, sessionId, messages.slice(0, messages.indexOf(userMsg)), { retryToken: answer.error?.retryToken });
+  };
+
+  // Stream the answer `answerId` to `userMsg` into the thread and save it
+  const answerTurn = async (
+    userMsg: ChatMessage,
+    answerId: string,
+    activeSessionId: string,
+    earlier: ChatMessage[],
+    { newThread, workspace, workspaceContext, retryToken }: { newThread?: boolean; workspace?: Workspace; workspaceContext?: WorkspaceContext; retryToken?: string }
+  ) => {
+    const searchQuery = userMsg.content;
+    const mode = userMsg.mode || 'quick';
+
+    // The search session follows the newest branch (restoring it from the stored turns when
+    // needed); after a resend or a version switch it's told which branch is being continued
+    const history: ChatTurn[] | undefined = newThread ? [] : branchChangedRef.current
+      ? earlier.filter(m => m.content && !m.error).map(m => ({ role: m.role, content: m.content }))
+      : undefined;
+    branchChangedRef.current = false;
+
+    const shouldSave = isLoggedIn && currentUserId;
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    // Streamed text is rendered at most once per frame
+    const stream = createStreamBuffer(text => setThread(prev => updateMessage(prev, answerId, { content: text })));
+
     try {
-      let currentText = '';
-      const result = await generateSearchResponse(searchQuery, activeSessionId, (chunk) => {
-        currentText += chunk;
-        setMessages(prev => {
-           const newMsgs = [...prev];
-           const lastMsg = newMsgs[newMsgs.length - 1];
-           if (lastMsg.role === 'model') {
-             lastMsg.content = currentText;
-           }
-           return newMsgs;
+      const onChunk = stream.push;
+      const searchOptions: SearchOptions = {
+        workspace: workspaceContext,
+        preferences: { safeSearch: preferences.safeSearch, dataSaver: preferences.dataSaver },
+        mode,
+        history,
+        signal: controller.signal,
+        retryToken
+      };
+
+      // Deep Research runs the agent loop: plan, grounded search per step, then the report
+      let result: GenerationResult;
+      if (mode === 'deep') {
+        result = await generateResearchReport(searchQuery, activeSessionId, onChunk, {
+          ...searchOptions,
+          onProgress: (research) => setThread(prev => updateMessage(prev, answerId, { research }))
         });
-      });
-
-      setMessages(prev => {
-        const newMsgs = [...prev];
-        const lastMsg = newMsgs[newMsgs.length - 1];
-        if (lastMsg.role === 'model') {
-          lastMsg.content = result.text;
-          lastMsg.sources = result.sources;
-          lastMsg.isStreaming = false;
-        }
-        return newMsgs;
-      });
+      } else {
+        result = await generateSearchResponse(searchQuery, activeSessionId, onChunk, searchOptions);
+      }
+      stream.cancel();
+
+      setThread(prev => updateMessage(prev, answerId, {
+        content: result.text,
+        sources: result.sources,
+        segments: result.segments,
+        searchQueries: result.searchQueries,
+        stopped: result.stopped,
+        ungroundedReason: result.ungroundedReason,
+        retryToken: result.retryToken,
+        isStreaming: false
+      }));
+
+      let saved = false;
+      if (isLoggedIn && currentUserId && result.text) {
+         // An answer can only be stored under a stored question
+         if (shouldSave && !unsavedTurnsRef.current.has(userMsg.id)) {
+            // Store the finished (or stopped) answer under the same thread so it can be reopened from history
+            const { error } = await supabase.from('messages').insert([{
+                id: answerId,
+                parent_id: userMsg.id,
+                user_id: currentUserId,
+                content: result.text,
+                role: 'model',
+                session_id: activeSessionId,
+                sources: result.sources,
+                grounding: { segments: result.segments, searchQueries: result.searchQueries },
+                ungrounded_reason: result.ungroundedReason || null,
+                mode
+            }]);
+            if (error) {
+               console.error("Failed to save answer:", error);
+            } else {
+               unsavedTurnsRef.current.delete(answerId);
+               saved = true;
+               // The thread's first answer gets it a generated title and summary, in the background
+               if (userMsg.parentId === null && result.summaryToken) {
+                  summarizeThread(activeSessionId, result.summaryToken).catch(err => console.error("Failed to summarize thread:", err));
+               }
+            }
+         }
+         if (result.usage) applyUsage(result.usage);
+         if (!result.stopped) notify('Your answer is ready', searchQuery);
+
+         // Threads started inside a workspace are saved into it
+         if (workspace) {
+            await addAnswerToWorkspace(currentUserId, workspace.id, activeSessionId, searchQuery, result.sources)
+              .catch(err => console.error("Failed to add thread to workspace:", err));
+         }
+      }
+
+      // Suggested next questions load after the answer, and are stored with it
+      if (!result.stopped) {
+         const earlierTurns = earlier.filter(m => m.content && !m.error).map(m => ({ role: m.role, content: m.content }));
+         suggestFollowUps(searchQuery, result, earlierTurns, { preferences: searchOptions.preferences, mode }).then(followUps => {
+            if (followUps.length === 0) return;
+            setThread(prev => updateMessage(prev, answerId, { followUps }));
+            if (saved) saveFollowUps(answerId, followUps).catch(err => console.error("Failed to save follow-ups:", err));
+         });
+      }
 
     } catch (e) {
       console.error(e);
+      if (e instanceof ResearchCancelledError) {
+        stream.cancel();
+        // Keep the plan and whatever was written so far, but don't save the run
+        setThread(prev => updateMessage(prev, answerId, { isStreaming: false, stopped: true, content: e.partialText, research: e.progress }));
+      } else {
+        // Show the failure as a card on the answer, after any text that was already written
+        stream.flush();
+        const error: SearchFailure = e instanceof SearchError
+          ? { code: e.code, message: e.message, retryable: e.retryable, retryToken: e.retryToken }
+          : { code: 'server', message: 'Something went wrong while answering.', retryable: true };
+        setThread(prev => updateMessage(prev, answerId, { isStreaming: false, error }));
+        if (e instanceof SearchError && e.quota && isLoggedIn) applyUsage(e.quota);
+      }
     } finally {
+      searchAbortRef.current = null;
       setIsLoading(false);
-      setQuery('');
     }
   };
 
   const handleNavClick = (view: ViewState) => {
     setCurrentView(view);
     setUserMenuOpen(false);
+    if (view === 'workspace') setActiveWorkspaceId(null);
   };
 
   const handleSaveProfile = async () => {
@@ -788,6 +1276,7 @@ export default function App() {
        user_id: currentUserId,
        name: newWorkspaceName,
        description: newWorkspaceDesc || 'Research Collection',
+       instructions: newWorkspaceInstructions,
        status: 'active'
     }]);
 
@@ -799,6 +1288,7 @@ export default function App() {
 
     setNewWorkspaceName('');
     setNewWorkspaceDesc('');
+    setNewWorkspaceInstructions('');
     setIsAddingWorkspace(false);
   };
 
@@ -809,6 +1299,63 @@ export default function App() {
     }
   };
 
+  // -- Logic for Workspace Contents --
+  const loadWorkspaceContents = async (workspaceId: string) => {
+    try {
+       setWorkspaceContents(await fetchWorkspaceContents(workspaceId));
+    } catch (err) {
+       console.error("Failed to load workspace:", err);
+    }
+  };
+
+  useEffect(() => {
+    if (!activeWorkspaceId || !currentUserId) return;
+    setWorkspaceContents(null);
+    loadWorkspaceContents(activeWorkspaceId);
+
+    const contentsChannel = supabase.channel(`workspace-contents-${activeWorkspaceId}`);
+    ['workspace_threads', 'workspace_sources', 'workspace_notes'].forEach(table => {
+      contentsChannel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `workspace_id=eq.${activeWorkspaceId}` },
+        () => loadWorkspaceContents(activeWorkspaceId)
+      );
+    });
+    contentsChannel.subscribe();
+
+    return () => {
+      supabase.removeChannel(contentsChannel);
+    };
+  }, [activeWorkspaceId, currentUserId]);
+
+  const runWorkspaceAction = async (action: () => Promise<void>, failureMessage: string) => {
+    try {
+       await action();
+       if (activeWorkspaceId) loadWorkspaceContents(activeWorkspaceId);
+    } catch (err) {
+       console.error(err);
+       alert(failureMessage);
+    }
+  };
+
+  const handleUpdateWorkspaceInstructions = async (workspaceId: string, instructions: string) => {
+    const { error } = await supabase.from('workspaces').update({
+       instructions,
+       last_modified: new Date().toISOString()
+    }).eq('id', workspaceId);
+    if (error) {
+       alert("Failed to update instructions");
+       return;
+    }
+    setWorkspaces(prev => prev.map(ws => ws.id === workspaceId ? { ...ws, instructions } : ws));
+  };
+
+  const handleAddAnswerToWorkspace = async (workspaceId: string, msg: ChatMessage) => {
+    if (!currentUserId) return;
+    const title = messages.find(m => m.role === 'user')?.content || 'Untitled thread';
+    await addAnswerToWorkspace(currentUserId, workspaceId, sessionId, title, msg.sources);
+  };
+
   // Render Content based on View
   const renderContent = () => {
     switch (currentView) {
@@ -821,15 +1368,18 @@ export default function App() {
               </h1>
               <p className="text-streek-muted text-lg">Where knowledge begins.</p>
             </div>
-            <SearchInput 
-              value={query} 
-              onChange={(e) => setQuery(e.target.value)} 
-              onSearch={() => handleSearch()} 
-              large={true}
-              loading={isLoading}
-            />
+            <div className="w-full max-w-2xl flex items-center gap-3">
+              <SearchModePicker value={searchMode} onChange={setSearchMode} />
+              <SearchInput 
+                value={query} 
+                onChange={(e) => setQuery(e.target.value)} 
+                onSearch={() => handleSearch()} 
+                large={true}
+                loading={isLoading}
+              />
+            </div>
             <div className="mt-8 flex flex-wrap justify-center gap-3">
-              {['Stock market today', 'How to center a div', 'Gemini API docs'].map((tag) => (
+              {(homeSuggestions ?? trendingQuestions.slice(0, HOME_SUGGESTIONS)).map((tag) => (
                 <button 
                   key={tag}
                   onClick={() => handleSearch(tag)}
@@ -846,9 +1396,50 @@ export default function App() {
         return (
           <div className="w-full max-w-4xl mx-auto px-4 pt-8 pb-32 animate-in slide-in-from-bottom-4 duration-500">
             {messages.map((msg, idx) => (
-              <div key={idx} className={`mb-10 ${msg.role === 'user' ? 'border-b border-streek-card pb-8' : ''}`}>
+              <div key={msg.id} className={`mb-10 ${msg.role === 'user' ? 'border-b border-streek-card pb-8' : ''}`}>
                 {msg.role === 'user' ? (
-                  <h2 className="text-3xl font-display font-medium text-streek-text">{msg.content}</h2>
+                  editingTurn?.index === idx ? (
+                    <div className="space-y-3">
+                      <textarea
+                        autoFocus
+                        value={editingTurn.draft}
+                        onChange={(e) => setEditingTurn({ index: idx, draft: e.target.value })}
+                        className="w-full bg-streek-card border border-[#333] rounded-lg px-3 py-2 text-streek-text text-xl font-display focus:border-streek-neon outline-none min-h-[80px]"
+                      />
+                      <div className="flex gap-3">
+                        <button
+                          onClick={() => resendTurn(idx, editingTurn.draft)}
+                          disabled={isLoading || !editingTurn.draft.trim()}
+                          className="bg-streek-neon text-streek-black font-bold px-4 py-1.5 rounded-lg text-sm hover:brightness-110 disabled:opacity-50"
+                        >
+                          Send
+                        </button>
+                        <button onClick={() => setEditingTurn(null)} className="text-streek-muted text-sm hover:text-white">Cancel</button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="group">
+                      <h2 className="text-3xl font-display font-medium text-streek-text">{msg.content}</h2>
+                      <div className="flex items-center gap-3 mt-3 text-streek-muted text-xs">
+                        {/* Other versions of this turn, each with the follow-ups asked under it */}
+                        <VersionSwitcher
+                          {...siblingsOf(thread, msg)}
+                          disabled={isLoading}
+                          onSelect={(id) => { branchChangedRef.current = true; setThread(prev => selectMessage(prev, id)); }}
+                        />
+                        {!isLoading && (
+                          <div className="flex items-center gap-3 opacity-0 group-hover:opacity-100 transition-all">
+                            <button onClick={() => resendTurn(idx, msg.content)} className="flex items-center gap-1 hover:text-streek-neon">
+                              <RefreshIcon className="w-3 h-3" /> Regenerate
+                            </button>
+                            <button onClick={() => setEditingTurn({ index: idx, draft: msg.content })} className="flex items-center gap-1 hover:text-streek-neon">
+                              <EditIcon className="w-3 h-3" /> Edit
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )
                 ) : (
                   <div>
                     {msg.sources && msg.sources.length > 0 && (
@@ -861,12 +1452,19 @@ export default function App() {
                           {msg.sources.map((source, sIdx) => (
                             <a 
                               key={sIdx} 
+                              id={`source-${idx}-${sIdx}`}
                               href={source.uri} 
                               target="_blank" 
                               rel="noreferrer"
-                              className="flex-shrink-0 min-w-[140px] max-w-[200px] p-3 bg-streek-card hover:bg-[#2A2A2A] rounded-lg border border-transparent hover:border-streek-neon/20 transition-all group"
+                              className={`flex-shrink-0 min-w-[140px] max-w-[200px] p-3 bg-streek-card hover:bg-[#2A2A2A] rounded-lg border transition-all group ${activeCitation?.msgIdx === idx && activeCitation.index === sIdx ? 'border-streek-neon shadow-[0_0_15px_rgba(212,255,91,0.25)]' : 'border-transparent hover:border-streek-neon/20'}`}
                             >
-                              <div className="text-xs text-streek-muted line-clamp-1 mb-1">{new URL(source.uri).hostname}</div>
+                              <div className="flex items-center gap-1 text-xs text-streek-muted whitespace-nowrap overflow-hidden mb-1">
+                                <span className="text-streek-neon font-bold mr-1">{sIdx + 1}</span>
+                                {!preferences.dataSaver && (
+                                  <img src={`https://www.google.com/s2/favicons?domain=${encodeURIComponent(sourceHost(source.uri))}&sz=32`} alt="" className="w-3.5 h-3.5 rounded-sm" loading="lazy" />
+                                )}
+                                <span className="truncate">{sourceHost(source.uri)}</span>
+                              </div>
                               <div className="text-sm text-streek-text font-medium line-clamp-2 group-hover:text-streek-neon transition-colors">{source.title}</div>
                             </a>
                           ))}
@@ -882,11 +1480,92 @@ export default function App() {
                       <div className="flex-grow">
                          <div className="flex items-center gap-2 mb-2">
                             <span className="font-semibold text-streek-neon">StreekX Answer</span>
+                            {msg.mode && msg.mode !== 'quick' && (
+                              <span className="px-2 py-0.5 rounded-full bg-streek-card text-streek-muted text-[10px] uppercase tracking-wider font-bold">{searchModeLabel(msg.mode)}</span>
+                            )}
                             {msg.isStreaming && <span className="animate-pulse w-2 h-2 rounded-full bg-streek-neon"></span>}
+                            {msg.stopped && <span className="text-streek-muted text-xs">Stopped</span>}
+                            {!msg.isStreaming && msg.ungroundedReason && <UngroundedBadge reason={msg.ungroundedReason} />}
+                            {!msg.isStreaming && msg.content && (
+                              <div className="ml-auto flex items-center gap-2">
+                                {/* A link shares the whole branch shown, so it's offered once, under the last answer */}
+                                {idx === messages.length - 1 && <ExportMenu onExport={handleExportThread} />}
+                                {isLoggedIn && idx === messages.length - 1 && (
+                                  <ShareThreadMenu sessionId={sessionId} messageIds={messages.map(m => m.id)} />
+                                )}
+                                {isLoggedIn && (
+                                  <AddToWorkspaceMenu
+                                    workspaces={workspaces}
+                                    onAdd={(workspaceId) => handleAddAnswerToWorkspace(workspaceId, msg)}
+                                    onCreateWorkspace={() => { setActiveWorkspaceId(null); setIsAddingWorkspace(true); setCurrentView('workspace'); }}
+                                  />
+                                )}
+                                {/* Deep Research reports cite merged sub-query sources, so there are no per-span grounding supports to check */}
+                                {msg.mode !== 'deep' && (
+                                  <button
+                                    onClick={() => setFactCheckMessages(prev => prev.includes(msg.id) ? prev.filter(id => id !== msg.id) : [...prev, msg.id])}
+                                    className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs font-semibold transition-all ${factCheckMessages.includes(msg.id) ? 'border-streek-neon text-streek-neon bg-streek-neon/10' : 'border-[#333] text-streek-muted hover:text-white'}`}
+                                  >
+                                    <ShieldIcon className="w-3 h-3" /> Fact-check
+                                  </button>
+                                )}
+                              </div>
+                            )}
                          </div>
-                         <div className="prose prose-invert prose-p:text-streek-text/90 prose-headings:text-streek-text max-w-none text-lg leading-relaxed whitespace-pre-line">
-                           {msg.content}
-                         </div>
+                         {msg.research && (
+                           <ResearchProgressPanel
+                             progress={msg.research}
+                             onCancel={msg.isStreaming ? handleStop : undefined}
+                           />
+                         )}
+                         {msg.error && !msg.content ? null : factCheckMessages.includes(msg.id) ? (
+                           <AttributedAnswer
+                             content={msg.content}
+                             segments={msg.segments}
+                             sources={msg.sources}
+                             searchQueries={msg.searchQueries}
+                             onSourceClick={(index) => {
+                               setActiveCitation({ msgIdx: idx, index });
+                               document.getElementById(`source-${idx}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+                             }}
+                           />
+                         ) : (
+                           <MarkdownAnswer
+                             content={msg.content}
+                             sources={msg.sources}
+                             activeCitation={activeCitation?.msgIdx === idx ? activeCitation.index : null}
+                             onCitationHover={(index) => setActiveCitation(index === null ? null : { msgIdx: idx, index })}
+                             onCitationClick={(index) => {
+                               setActiveCitation({ msgIdx: idx, index });
+                               document.getElementById(`source-${idx}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+                             }}
+                           />
+                         )}
+                         {msg.ungroundedReason === 'search_unavailable' && !msg.isStreaming && (
+                           <div className="mt-4 flex flex-wrap items-center gap-3 text-xs text-streek-muted">
+                             <span>{UNGROUNDED_LABELS.search_unavailable.hint}</span>
+                             <button
+                               onClick={() => retryLive(msg)}
+                               disabled={isLoading}
+                               className="flex items-center gap-1 px-3 py-1 rounded-full border border-[#333] font-semibold hover:text-streek-neon hover:border-streek-neon disabled:opacity-50"
+                             >
+                               <GlobeIcon className="w-3 h-3" /> Retry with live search
+                             </button>
+                           </div>
+                         )}
+                         {msg.followUps && msg.followUps.length > 0 && !msg.isStreaming && (
+                           <FollowUpChips questions={msg.followUps} disabled={isLoading} onAsk={(question) => handleSearch(question)} />
+                         )}
+                         {msg.error && (
+                           <SearchErrorCard
+                             error={msg.error}
+                             isLoggedIn={isLoggedIn}
+                             onRetry={isLoading ? undefined : () => retryAnswer(msg)}
+                             onViewPlan={() => handleNavClick('account')}
+                             onSignIn={triggerAuth}
+                             className={msg.content ? 'mt-4' : ''}
+                           />
+                         )}
                       </div>
                     </div>
                   </div>
@@ -894,12 +1573,14 @@ export default function App() {
               </div>
             ))}
              <div className="fixed bottom-6 left-0 right-0 px-4 flex justify-center z-10">
-                <div className="w-full max-w-2xl bg-[#0F0F0F]/80 backdrop-blur-md p-2 rounded-full shadow-2xl border border-streek-card">
+                <div className="w-full max-w-2xl bg-[#0F0F0F]/80 backdrop-blur-md p-2 rounded-full shadow-2xl border border-streek-card flex items-center gap-2">
+                  <SearchModePicker value={searchMode} onChange={setSearchMode} direction="up" />
                   <SearchInput 
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
                     onSearch={() => handleSearch()}
                     loading={isLoading}
+                    onStop={handleStop}
                   />
                 </div>
              </div>
@@ -936,7 +1617,7 @@ export default function App() {
                 <div className="flex flex-col md:flex-row gap-8 items-start">
                   <div className="relative">
                      <div className="w-32 h-32 rounded-full overflow-hidden border-2 border-streek-neon/50">
-                       <img src={userProfile.avatar} alt="Avatar" className="w-full h-full object-cover" />
+                       <ProfileAvatar src={userProfile.avatar} name={userProfile.name} dataSaver={preferences.dataSaver} />
                      </div>
                   </div>
                   
@@ -980,7 +1661,25 @@ export default function App() {
           </div>
         );
 
-      case 'workspace':
+      case 'workspace': {
+        const activeWorkspace = workspaces.find(ws => ws.id === activeWorkspaceId);
+        if (activeWorkspace && currentUserId) {
+          return (
+            <WorkspaceDetail
+              workspace={activeWorkspace}
+              contents={workspaceContents}
+              onBack={() => setActiveWorkspaceId(null)}
+              onStartThread={(threadQuery) => handleSearch(threadQuery, activeWorkspace)}
+              onUpdateInstructions={(instructions) => handleUpdateWorkspaceInstructions(activeWorkspace.id, instructions)}
+              onOpenThread={(threadSessionId, title) => openThread(threadSessionId, title)}
+              onRemoveThread={(threadSessionId) => runWorkspaceAction(() => removeWorkspaceThread(activeWorkspace.id, threadSessionId), "Failed to remove thread")}
+              onRemoveSource={(sourceId) => runWorkspaceAction(() => removeWorkspaceSource(sourceId), "Failed to remove source")}
+              onAddNote={(content) => runWorkspaceAction(() => addWorkspaceNote(currentUserId, activeWorkspace.id, content), "Failed to add note")}
+              onUpdateNote={(noteId, content) => runWorkspaceAction(() => updateWorkspaceNote(noteId, content), "Failed to update note")}
+              onDeleteNote={(noteId) => runWorkspaceAction(() => deleteWorkspaceNote(noteId), "Failed to delete note")}
+            />
+          );
+        }
         return (
           <div className="max-w-6xl mx-auto px-4 pt-12 animate-in fade-in duration-300">
              <div className="flex justify-between items-end mb-10">
@@ -990,9 +1689,15 @@ export default function App() {
                   </h2>
                   <p className="text-streek-muted">Organize your research threads and collections in one place.</p>
                </div>
-               <button onClick={() => setIsAddingWorkspace(true)} className="flex items-center gap-2 px-5 py-3 bg-streek-neon text-streek-black font-bold rounded-xl hover:brightness-110 transition-all shadow-[0_0_20px_rgba(212,255,91,0.2)]">
-                  <PlusIcon className="w-5 h-5" /> New Collection
-               </button>
+               <div className="flex items-center gap-3">
+                 <ImportButton
+                   onImport={handleImportFile}
+                   className="flex items-center gap-2 px-5 py-3 bg-[#222] border border-[#333] text-white font-bold rounded-xl hover:bg-[#333] transition-all"
+                 />
+                 <button onClick={() => setIsAddingWorkspace(true)} className="flex items-center gap-2 px-5 py-3 bg-streek-neon text-streek-black font-bold rounded-xl hover:brightness-110 transition-all shadow-[0_0_20px_rgba(212,255,91,0.2)]">
+                    <PlusIcon className="w-5 h-5" /> New Collection
+                 </button>
+               </div>
              </div>
 
              {isAddingWorkspace && (
@@ -1019,6 +1724,15 @@ export default function App() {
                           className="w-full bg-[#0F0F0F] border border-[#333] rounded-lg px-4 py-3 text-white focus:border-streek-neon outline-none min-h-[80px]" 
                         />
                       </div>
+                      <div className="space-y-1">
+                        <label className="text-xs uppercase text-streek-muted font-bold">Instructions for StreekX (Optional)</label>
+                        <textarea
+                          placeholder="How should answers in this collection be researched or written?" 
+                          value={newWorkspaceInstructions}
+                          onChange={(e) => setNewWorkspaceInstructions(e.target.value)}
+                          className="w-full bg-[#0F0F0F] border border-[#333] rounded-lg px-4 py-3 text-white focus:border-streek-neon outline-none min-h-[80px]" 
+                        />
+                      </div>
                       <div className="flex gap-3 pt-2">
                         <button onClick={handleCreateWorkspace} className="bg-streek-neon text-streek-black px-6 py-2 rounded-lg font-bold hover:brightness-110">Create</button>
                         <button onClick={() => setIsAddingWorkspace(false)} className="bg-[#222] border border-[#333] text-white px-6 py-2 rounded-lg hover:bg-[#333]">Cancel</button>
@@ -1034,9 +1748,12 @@ export default function App() {
                          <div className="p-3 bg-[#0F0F0F] rounded-xl text-streek-neon group-hover:scale-110 transition-transform">
                             <FolderIcon className="w-6 h-6" />
                          </div>
-                         <button onClick={() => handleDeleteWorkspace(ws.id)} className="text-streek-muted hover:text-red-500 transition-colors p-2 bg-[#0F0F0F] rounded-lg opacity-0 group-hover:opacity-100">
-                            <TrashIcon className="w-4 h-4" />
-                         </button>
+                         <div className="flex items-center gap-2">
+                            <ExportMenu onExport={(format) => handleExportWorkspace(ws, format)} />
+                            <button onClick={() => handleDeleteWorkspace(ws.id)} className="text-streek-muted hover:text-red-500 transition-colors p-2 bg-[#0F0F0F] rounded-lg opacity-0 group-hover:opacity-100">
+                               <TrashIcon className="w-4 h-4" />
+                            </button>
+                         </div>
                       </div>
                       
                       <h3 className="text-xl font-bold text-white mb-2 line-clamp-1">{ws.name}</h3>
@@ -1044,10 +1761,10 @@ export default function App() {
                       
                       <div className="pt-4 border-t border-[#333] flex justify-between items-center text-xs text-streek-muted/60 uppercase tracking-wider font-semibold">
                          <span>Updated: {ws.lastModified}</span>
-                         <div className="flex items-center gap-1 text-streek-neon">
+                         <button onClick={() => setActiveWorkspaceId(ws.id)} className="flex items-center gap-1 text-streek-neon hover:underline">
                             <span>Open</span>
                             <ArrowRightIcon className="w-3 h-3" />
-                         </div>
+                         </button>
                       </div>
                    </div>
                 ))}
@@ -1065,6 +1782,7 @@ export default function App() {
              </div>
           </div>
         );
+      }
 
       case 'preferences':
         return (
@@ -1078,28 +1796,28 @@ export default function App() {
                       <div className="font-bold text-lg text-white">Safe Search</div>
                       <div className="text-streek-muted text-sm">Filter explicit content from results</div>
                    </div>
-                   <Toggle checked={preferences.safeSearch} onChange={(v) => setPreferences({...preferences, safeSearch: v})} />
+                   <Toggle checked={preferences.safeSearch} onChange={(v) => updatePreferences({ safeSearch: v })} />
                 </div>
                 <div className="p-6 flex items-center justify-between">
                    <div>
                       <div className="font-bold text-lg text-white">Notifications</div>
-                      <div className="text-streek-muted text-sm">Get updates on your workspace</div>
+                      <div className="text-streek-muted text-sm">Alert me about finished answers and workspace updates in the background</div>
                    </div>
-                   <Toggle checked={preferences.notifications} onChange={(v) => setPreferences({...preferences, notifications: v})} />
+                   <Toggle checked={preferences.notifications} onChange={(v) => updatePreferences({ notifications: v })} />
                 </div>
                 <div className="p-6 flex items-center justify-between">
                    <div>
                       <div className="font-bold text-lg text-white">High Contrast</div>
                       <div className="text-streek-muted text-sm">Increase visibility of text and icons</div>
                    </div>
-                   <Toggle checked={preferences.highContrast} onChange={(v) => setPreferences({...preferences, highContrast: v})} />
+                   <Toggle checked={preferences.highContrast} onChange={(v) => updatePreferences({ highContrast: v })} />
                 </div>
                 <div className="p-6 flex items-center justify-between">
                    <div>
                       <div className="font-bold text-lg text-white">Data Saver</div>
-                      <div className="text-streek-muted text-sm">Reduce data usage for slower connections</div>
+                      <div className="text-streek-muted text-sm">Shorter answers, no source icons or avatars</div>
                    </div>
-                   <Toggle checked={preferences.dataSaver} onChange={(v) => setPreferences({...preferences, dataSaver: v})} />
+                   <Toggle checked={preferences.dataSaver} onChange={(v) => updatePreferences({ dataSaver: v })} />
                 </div>
              </div>
           </div>
@@ -1210,6 +1928,17 @@ export default function App() {
                 
                 {isChangingPassword && (
                    <div className="bg-[#0F0F0F] rounded-xl p-4 border border-[#333] space-y-3 animate-in fade-in slide-in-from-top-2">
+                      <div className="space-y-1">
+                         <label className="text-xs uppercase text-streek-muted font-bold">Current Password</label>
+                         <input 
+                           type="password" 
+                           autoComplete="current-password"
+                           value={passwordForm.current}
+                           onChange={(e) => setPasswordForm({...passwordForm, current: e.target.value})}
+                           className="w-full bg-[#1A1A1A] border border-[#333] rounded-lg p-2 text-white text-sm outline-none focus:border-streek-neon"
+                           placeholder="Current password"
+                         />
+                      </div>
                       <div className="space-y-1">
                          <label className="text-xs uppercase text-streek-muted font-bold">New Password</label>
                          <input 
@@ -1230,6 +1959,20 @@ export default function App() {
                            placeholder="Confirm new password"
                          />
                       </div>
+                      {userProfile?.totpEnabled && (
+                        <div className="space-y-1">
+                           <label className="text-xs uppercase text-streek-muted font-bold">Authentication Code</label>
+                           <input 
+                             type="text" 
+                             inputMode="numeric"
+                             autoComplete="one-time-code"
+                             value={passwordForm.code}
+                             onChange={(e) => setPasswordForm({...passwordForm, code: e.target.value})}
+                             className="w-full bg-[#1A1A1A] border border-[#333] rounded-lg p-2 text-white text-sm outline-none focus:border-streek-neon"
+                             placeholder="6-digit code or a recovery code"
+                           />
+                        </div>
+                      )}
                       <button 
                         onClick={handleChangePassword}
                         className="w-full bg-streek-neon text-streek-black font-bold py-2 rounded-lg text-sm hover:brightness-110"
@@ -1242,10 +1985,27 @@ export default function App() {
                  <div className="flex items-center justify-between pt-4 border-t border-[#333]">
                   <div>
                     <div className="font-medium text-white">Two-Factor Auth</div>
-                    <div className="text-xs text-streek-muted">Add an extra layer of security</div>
+                    <div className="text-xs text-streek-muted">
+                      {userProfile?.totpEnabled ? 'Enabled with an authenticator app' : 'Add an extra layer of security'}
+                    </div>
                   </div>
-                   <Toggle checked={false} onChange={() => {}} />
+                   <Toggle
+                     checked={!!userProfile?.totpEnabled || twoFactorFlow === 'enroll'}
+                     onChange={(v) => setTwoFactorFlow(v ? 'enroll' : (userProfile?.totpEnabled ? 'disable' : null))}
+                   />
                 </div>
+
+                {twoFactorFlow && (
+                  <TwoFactorSetup
+                    key={twoFactorFlow}
+                    mode={twoFactorFlow}
+                    onCancel={() => setTwoFactorFlow(null)}
+                    onComplete={(enabled) => {
+                      setUserProfile(prev => prev ? ({ ...prev, totpEnabled: enabled }) : null);
+                      setTwoFactorFlow(null);
+                    }}
+                  />
+                )}
              </div>
 
              {/* Plan Card */}
@@ -1256,6 +2016,20 @@ export default function App() {
                 <div className="relative z-10">
                    <div className="text-streek-muted text-sm uppercase tracking-widest font-semibold mb-2">Current Plan</div>
                    <div className="text-4xl font-display font-bold text-white mb-4">{accountStats.plan} Plan</div>
+                   <div className="max-w-sm mb-6">
+                      <div className="flex justify-between text-sm mb-2">
+                         <span className="text-white font-medium">{accountStats.queriesUsed} / {accountStats.queriesLimit} queries</span>
+                         {accountStats.resetsAt && (
+                           <span className="text-streek-muted">Resets {new Date(accountStats.resetsAt).toLocaleDateString()}</span>
+                         )}
+                      </div>
+                      <div className="h-2 bg-[#0F0F0F] rounded-full overflow-hidden">
+                         <div
+                           className={`h-full rounded-full ${accountStats.queriesUsed >= accountStats.queriesLimit ? 'bg-red-500' : 'bg-streek-neon'}`}
+                           style={{ width: `${Math.min(100, (accountStats.queriesUsed / Math.max(1, accountStats.queriesLimit)) * 100)}%` }}
+                         ></div>
+                      </div>
+                   </div>
                    <p className="text-streek-muted mb-6 max-w-sm">You are on the free tier. Upgrade to Pro to unlock unlimited queries and faster processing.</p>
                    <button className="bg-streek-neon text-streek-black font-bold px-6 py-3 rounded-xl hover:brightness-110 transition-all shadow-lg shadow-streek-neon/20">
                       Upgrade to Pro
@@ -1277,37 +2051,39 @@ export default function App() {
           </div>
         );
 
-      case 'history':
+      case 'history': {
+        const importButton = (
+          <ImportButton
+            onImport={handleImportFile}
+            className="flex items-center gap-2 px-4 py-2 bg-[#222] border border-[#333] text-white text-sm font-bold rounded-xl hover:bg-[#333] transition-all"
+          />
+        );
+        if (!isLoggedIn || !currentUserId) {
+          return (
+            <div className="max-w-4xl mx-auto px-4 pt-12 animate-in fade-in duration-300">
+              <div className="flex justify-between items-center mb-8">
+                <h2 className="text-3xl font-display font-bold text-streek-text flex items-center gap-3">
+                  <HistoryIcon className="w-8 h-8 text-streek-neon" /> History
+                </h2>
+                {importButton}
+              </div>
+              <div className="bg-streek-card rounded-2xl p-8 border border-[#333] text-center text-streek-muted">
+                Sign in to keep a history of your threads.
+              </div>
+            </div>
+          );
+        }
         return (
-          <div className="max-w-4xl mx-auto px-4 pt-12 animate-in fade-in duration-300">
-             <h2 className="text-3xl font-display font-bold text-streek-text mb-8 flex items-center gap-3">
-               <HistoryIcon className="w-8 h-8 text-streek-neon" /> History
-             </h2>
-             <div className="bg-streek-card rounded-2xl p-2 border border-[#333] overflow-hidden">
-               {searchHistory.length === 0 ? (
-                 <div className="p-8 text-center text-streek-muted">No history yet.</div>
-               ) : (
-                 <div className="divide-y divide-[#333]">
-                    {searchHistory.map((item) => (
-                      <div 
-                        key={item.id} 
-                        onClick={() => handleSearch(item.query)}
-                        className="flex items-center justify-between p-4 hover:bg-[#252525] transition-colors cursor-pointer group"
-                      >
-                        <div className="flex items-center gap-4">
-                           <div className="p-2 bg-[#0F0F0F] rounded-lg text-streek-muted group-hover:text-streek-neon transition-colors">
-                              <SearchIcon className="w-5 h-5" />
-                           </div>
-                           <span className="text-streek-text font-medium text-lg">{item.query}</span>
-                        </div>
-                        <span className="text-sm text-streek-muted">{item.date}</span>
-                      </div>
-                    ))}
-                 </div>
-               )}
-             </div>
-          </div>
+          <HistoryView
+            userId={currentUserId}
+            workspaces={workspaces}
+            version={historyVersion}
+            headerAction={importButton}
+            onOpenThread={(threadSessionId, title) => openThread(threadSessionId, title)}
+            onChanged={fetchHistory}
+          />
         );
+      }
 
       default:
         return null;
@@ -1316,6 +2092,19 @@ export default function App() {
 
   // --- TOP LEVEL RENDER LOGIC FOR INTRO PHASES ---
   
+  // Shared links open straight into the read-only view, without the intro or signing in
+  if (sharedSlug) {
+    return (
+      <SharedThreadView
+        slug={sharedSlug}
+        onExit={() => {
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          setSharedSlug(null);
+        }}
+      />
+    );
+  }
+
   if (appPhase === 'splash') {
     return <SplashScreen onFinish={() => setAppPhase('onboarding')} />;
   }
@@ -1389,7 +2178,7 @@ export default function App() {
                 className={`flex items-center gap-2 p-1.5 pr-3 rounded-full border transition-all ${userMenuOpen ? 'bg-streek-card border-streek-neon/50' : 'border-transparent hover:bg-streek-card'}`}
               >
                 <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-streek-glow to-streek-neon flex items-center justify-center text-xs font-bold text-white overflow-hidden">
-                  <img src={userProfile?.avatar || 'https://picsum.photos/200/200'} alt="User" className="w-full h-full object-cover opacity-90" />
+                  <ProfileAvatar src={userProfile?.avatar || 'https://picsum.photos/200/200'} name={userProfile?.name} dataSaver={preferences.dataSaver} className="opacity-90" />
                 </div>
                 <span className="text-sm font-medium hidden sm:block">User</span>
                 <MenuIcon className={`w-4 h-4 text-streek-muted transition-transform duration-200 ${userMenuOpen ? 'rotate-90' : ''}`} />
@@ -1418,7 +2207,7 @@ export default function App() {
                    {/* 1. Identity Section */}
                    <div className="flex flex-col items-center justify-center text-center py-4">
                       <div className="w-24 h-24 rounded-full border-4 border-streek-card overflow-hidden mb-4 shadow-[0_0_20px_rgba(212,255,91,0.2)]">
-                         <img src={userProfile?.avatar} alt="Profile" className="w-full h-full object-cover" />
+                         <ProfileAvatar src={userProfile?.avatar} name={userProfile?.name} dataSaver={preferences.dataSaver} />
                       </div>
                       <h2 className="text-2xl font-bold text-white">{userProfile?.name}</h2>
                       <p className="text-streek-neon font-mono mt-1 text-lg">@{userProfile?.streekx_id}</p>
@@ -1441,12 +2230,12 @@ export default function App() {
                            <div className="divide-y divide-[#333]">
                              {searchHistory.slice(0, 5).map(item => (
                                <button 
-                                 key={item.id}
-                                 onClick={() => handleNavClick('history')} // Navigate to history view or run search? Keeping simple for menu
+                                 key={item.sessionId}
+                                 onClick={() => openThread(item.sessionId, item.title)}
                                  className="w-full text-left p-4 hover:bg-[#252525] flex items-center gap-3 transition-colors"
                                >
                                   <HistoryIcon className="w-4 h-4 text-streek-muted" />
-                                  <span className="text-white line-clamp-1">{item.query}</span>
+                                  <span className="text-white line-clamp-1">{item.title}</span>
                                </button>
                              ))}
                            </div>
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Workspace } from '../types';
+import { FolderIcon, PlusIcon, CheckIcon } from './Icons';
+
+interface AddToWorkspaceMenuProps {
+  workspaces: Workspace[];
+  onAdd: (workspaceId: string) => Promise<void>;
+  onCreateWorkspace: () => void;
+}
+
+// "Add to workspace" action shown under an answer; saves the thread and pins its sources
+export const AddToWorkspaceMenu: React.FC<AddToWorkspaceMenuProps> = ({ workspaces, onAdd, onCreateWorkspace }) => {
+  const [open, setOpen] = useState(false);
+  const [savedTo, setSavedTo] = useState<string[]>([]);
+
+  const handleAdd = async (workspaceId: string) => {
+    try {
+      await onAdd(workspaceId);
+      setSavedTo(prev => [...prev, workspaceId]);
+      setOpen(false);
+    } catch (err) {
+      console.error("Failed to add to workspace:", err);
+      alert("Failed to add to workspace");
+    }
+  };
+
+  const activeWorkspaces = workspaces.filter(ws => ws.status === 'active');
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-3 py-1 rounded-full border text-xs font-semibold transition-all ${savedTo.length > 0 ? 'border-streek-neon/50 text-streek-neon' : 'border-[#333] text-streek-muted hover:text-white'}`}
+      >
+        {savedTo.length > 0 ? <CheckIcon className="w-3 h-3" /> : <PlusIcon className="w-3 h-3" />}
+        {savedTo.length > 0 ? 'Saved' : 'Add to workspace'}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-[#151515] border border-[#333] rounded-xl shadow-2xl z-20 overflow-hidden animate-in fade-in slide-in-from-top-2">
+          {activeWorkspaces.length === 0 ? (
+            <div className="p-4 text-sm text-streek-muted">No collections yet.</div>
+          ) : (
+            <div className="max-h-64 overflow-y-auto divide-y divide-[#333]">
+              {activeWorkspaces.map(ws => (
+                <button
+                  key={ws.id}
+                  onClick={() => handleAdd(ws.id)}
+                  className="w-full text-left p-3 hover:bg-[#252525] flex items-center gap-3 text-sm text-white transition-colors"
+                >
+                  <FolderIcon className="w-4 h-4 text-streek-neon flex-shrink-0" />
+                  <span className="line-clamp-1 flex-1">{ws.name}</span>
+                  {savedTo.includes(ws.id) && <CheckIcon className="w-4 h-4 text-streek-neon" />}
+                </button>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => { setOpen(false); onCreateWorkspace(); }}
+            className="w-full p-3 border-t border-[#333] text-left text-sm text-streek-neon hover:bg-[#252525] flex items-center gap-2"
+          >
+            <PlusIcon className="w-4 h-4" /> New Collection
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
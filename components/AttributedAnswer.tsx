@@ -0,0 +1,72 @@
+import React from 'react';
+import { GroundingSegment, SearchSource } from '../types';
+import { attributeSentences } from '../services/attribution';
+
+interface AttributedAnswerProps {
+  content: string;
+  segments?: GroundingSegment[];
+  sources?: SearchSource[];
+  searchQueries?: string[];
+  onSourceClick: (index: number) => void;
+}
+
+// Fact-check view of an answer: grounded sentences are underlined with their supporting sources,
+// sentences without any grounding support are flagged
+export const AttributedAnswer: React.FC<AttributedAnswerProps> = ({ content, segments = [], sources = [], searchQueries = [], onSourceClick }) => {
+  const sentences = attributeSentences(content, segments);
+  const claims = sentences.filter(s => s.status !== 'neutral');
+  const groundedCount = claims.filter(s => s.status === 'grounded').length;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-4 p-3 rounded-lg bg-[#151515] border border-[#333] text-xs">
+        <span className="text-streek-neon font-bold">{groundedCount} of {claims.length} claims grounded</span>
+        {claims.length > groundedCount && (
+          <span className="text-red-400 font-bold">{claims.length - groundedCount} without a source</span>
+        )}
+        {searchQueries.length > 0 && (
+          <span className="text-streek-muted">
+            Searched: {searchQueries.map(q => `"${q}"`).join(', ')}
+          </span>
+        )}
+      </div>
+
+      <div className="text-lg leading-relaxed text-streek-text/90 whitespace-pre-wrap">
+        {sentences.map((sentence, i) => {
+          if (sentence.status === 'neutral') return <span key={i}>{sentence.text}</span>;
+
+          if (sentence.status === 'unsupported') {
+            return (
+              <span key={i} title="No grounding source supports this claim" className="underline decoration-wavy decoration-red-500/70 underline-offset-4">
+                {sentence.text}
+              </span>
+            );
+          }
+
+          const sourceTitles = sentence.sourceIndices.map(idx => `[${idx + 1}] ${sources[idx]?.title || 'Source'}`).join('\n');
+          return (
+            <span key={i}>
+              <span
+                title={`${sourceTitles}\nConfidence: ${Math.round(sentence.confidence * 100)}%`}
+                className="underline decoration-dotted decoration-streek-neon/70 underline-offset-4"
+              >
+                {sentence.text.trimEnd()}
+              </span>
+              {sentence.sourceIndices.map(idx => (
+                <button
+                  key={idx}
+                  type="button"
+                  onClick={() => onSourceClick(idx)}
+                  className="inline-flex items-center justify-center align-super mx-0.5 min-w-[1.25rem] h-5 px-1 rounded-md text-[11px] font-bold leading-none bg-streek-card text-streek-muted hover:text-streek-neon"
+                >
+                  {idx + 1}
+                </button>
+              ))}
+              {sentence.text.slice(sentence.text.trimEnd().length)}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
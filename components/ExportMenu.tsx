@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { ExportFormat } from '../services/exportService';
+import { DownloadIcon } from './Icons';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void>;
+}
+
+const FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'Answers with a numbered reference list' },
+  { format: 'html', label: 'Printable page', description: 'HTML to print or save as PDF' },
+  { format: 'json', label: 'StreekX JSON', description: 'Everything, to import again later' },
+];
+
+// "Export" action for a thread or a workspace; the caller builds and downloads the file
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport }) => {
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      await onExport(format);
+      setOpen(false);
+    } catch (err) {
+      console.error("Failed to export:", err);
+      alert("Failed to export");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 px-3 py-1 rounded-full border border-[#333] text-streek-muted hover:text-white text-xs font-semibold transition-all"
+      >
+        <DownloadIcon className="w-3 h-3" /> Export
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-[#151515] border border-[#333] rounded-xl shadow-2xl z-20 overflow-hidden animate-in fade-in slide-in-from-top-2 divide-y divide-[#333]">
+          {FORMATS.map(({ format, label, description }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={busy}
+              className="w-full text-left p-3 hover:bg-[#252525] transition-colors disabled:opacity-50"
+            >
+              <div className="text-sm text-white">{label}</div>
+              <div className="text-xs text-streek-muted">{description}</div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
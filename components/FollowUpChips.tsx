@@ -0,0 +1,31 @@
+import React from 'react';
+import { LayersIcon, PlusIcon } from './Icons';
+
+interface FollowUpChipsProps {
+  questions: string[];
+  disabled?: boolean;
+  onAsk: (question: string) => void;
+}
+
+// Suggested next questions under an answer; asking one continues the thread
+export const FollowUpChips: React.FC<FollowUpChipsProps> = ({ questions, disabled, onAsk }) => (
+  <div className="mt-6 animate-in fade-in">
+    <div className="flex items-center gap-2 mb-3 text-streek-muted text-xs uppercase tracking-wider font-semibold">
+      <LayersIcon className="w-4 h-4" />
+      <span>Related</span>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      {questions.map((question) => (
+        <button
+          key={question}
+          onClick={() => onAsk(question)}
+          disabled={disabled}
+          className="flex items-center gap-2 px-3 py-2 bg-streek-card/50 hover:bg-streek-card border border-streek-card hover:border-streek-neon/30 rounded-lg text-sm text-streek-muted hover:text-streek-text text-left transition-all disabled:opacity-50"
+        >
+          <PlusIcon className="w-3 h-3 flex-shrink-0 text-streek-neon" />
+          {question}
+        </button>
+      ))}
+    </div>
+  </div>
+);
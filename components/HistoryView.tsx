@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { HistoryFilters, HistoryItem, Workspace } from '../types';
+import { fetchHistoryPage, deleteThreads, HISTORY_PAGE_SIZE, NO_HISTORY_FILTERS } from '../services/historyService';
+import { moveThreadsToWorkspace } from '../services/workspaceService';
+import { renameThread } from '../services/threadService';
+import { UngroundedBadge } from './UngroundedBadge';
+import { HistoryIcon, SearchIcon, TrashIcon, FolderIcon, XIcon, EditIcon, CheckIcon } from './Icons';
+
+interface HistoryViewProps {
+  userId: string;
+  workspaces: Workspace[];
+  version: number; // Bumped when stored messages change, to reload the page shown
+  headerAction?: React.ReactNode;
+  onOpenThread: (sessionId: string, title: string) => void;
+  onChanged: () => void; // After threads were deleted, moved or renamed
+}
+
+// How long typing pauses before the search runs
+const SEARCH_DELAY_MS = 300;
+
+const fieldClass = 'bg-[#0F0F0F] border border-[#333] rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-streek-neon/50';
+
+// search_history() marks matched words with <mark>; everything else is shown as text
+const Snippet = ({ text }: { text: string }) => (
+  <p className="text-sm text-streek-muted line-clamp-2 mt-1">
+    {text.split(/<\/?mark>/).map((part, i) => i % 2 === 1
+      ? <mark key={i} className="bg-streek-neon/20 text-streek-neon rounded px-0.5">{part}</mark>
+      : part)}
+  </p>
+);
+
+export const HistoryView: React.FC<HistoryViewProps> = ({ userId, workspaces, version, headerAction, onOpenThread, onChanged }) => {
+  const [filters, setFilters] = useState<HistoryFilters>(NO_HISTORY_FILTERS);
+  const [search, setSearch] = useState(''); // filters.query once typing pauses
+  const [page, setPage] = useState(0);
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [moveTarget, setMoveTarget] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [renaming, setRenaming] = useState<{ sessionId: string; draft: string } | null>(null);
+
+  // A new search or filter starts again from the first page
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(filters.query);
+      setPage(0);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters.query]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchHistoryPage({ ...filters, query: search }, page * HISTORY_PAGE_SIZE)
+      .then(({ items, total }) => {
+        if (cancelled) return;
+        setItems(items);
+        setTotal(total);
+        // Only threads on the page shown stay selected
+        setSelected(prev => new Set(items.filter(item => prev.has(item.sessionId)).map(item => item.sessionId)));
+      })
+      .catch(err => console.error("Failed to load history:", err))
+      .finally(() => !cancelled && setLoading(false));
+    return () => { cancelled = true; };
+  }, [search, filters.from, filters.to, filters.workspaceId, page, version]);
+
+  const updateFilters = (patch: Partial<HistoryFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    if (patch.query === undefined) setPage(0);
+  };
+  const filtered = filters.query.trim() !== '' || filters.from !== '' || filters.to !== '' || filters.workspaceId !== '';
+
+  const toggleSelected = (sessionId: string) => setSelected(prev => {
+    const next = new Set(prev);
+    if (!next.delete(sessionId)) next.add(sessionId);
+    return next;
+  });
+  const allSelected = items.length > 0 && items.every(item => selected.has(item.sessionId));
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(items.map(item => item.sessionId)));
+
+  const runBulkAction = async (action: () => Promise<void>, errorMessage: string) => {
+    setBusy(true);
+    try {
+      await action();
+      setSelected(new Set());
+      onChanged();
+    } catch (err) {
+      console.error(errorMessage, err);
+      alert(errorMessage);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const count = selected.size;
+    if (!confirm(`Delete ${count} thread${count === 1 ? '' : 's'}? Every question and answer in ${count === 1 ? 'it' : 'them'} is removed. Shared links keep working until you revoke them.`)) return;
+    runBulkAction(() => deleteThreads(userId, [...selected]), "Failed to delete threads");
+  };
+
+  const handleMove = () => {
+    if (!moveTarget) return;
+    const threads = items.filter(item => selected.has(item.sessionId)).map(({ sessionId, title }) => ({ sessionId, title }));
+    runBulkAction(() => moveThreadsToWorkspace(userId, moveTarget, threads), "Failed to move threads");
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+    const title = renaming.draft.trim();
+    setRenaming(null);
+    const item = items.find(i => i.sessionId === renaming.sessionId);
+    if (!title || !item || title === item.title) return;
+
+    setItems(prev => prev.map(i => i.sessionId === item.sessionId ? { ...i, title } : i));
+    try {
+      await renameThread(userId, item.sessionId, title);
+      onChanged();
+    } catch (err) {
+      console.error("Failed to rename thread:", err);
+      setItems(prev => prev.map(i => i.sessionId === item.sessionId ? { ...i, title: item.title } : i));
+      alert("Failed to rename thread");
+    }
+  };
+
+  const first = page * HISTORY_PAGE_SIZE;
+  const last = Math.min(first + items.length, total);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 pt-12 pb-24 animate-in fade-in duration-300">
+      <div className="flex justify-between items-center mb-8">
+        <h2 className="text-3xl font-display font-bold text-streek-text flex items-center gap-3">
+          <HistoryIcon className="w-8 h-8 text-streek-neon" /> History
+        </h2>
+        {headerAction}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="flex-1 min-w-[220px] relative">
+          <SearchIcon className="w-4 h-4 text-streek-muted absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={filters.query}
+            onChange={(e) => updateFilters({ query: e.target.value })}
+            placeholder="Search your threads"
+            className={`${fieldClass} w-full pl-9`}
+          />
+        </div>
+        <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => updateFilters({ from: e.target.value })} className={fieldClass} aria-label="From" />
+        <span className="text-streek-muted text-sm">to</span>
+        <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => updateFilters({ to: e.target.value })} className={fieldClass} aria-label="To" />
+        <select value={filters.workspaceId} onChange={(e) => updateFilters({ workspaceId: e.target.value })} className={fieldClass} aria-label="Workspace">
+          <option value="">All threads</option>
+          {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name}</option>)}
+        </select>
+        {filtered && (
+          <button onClick={() => updateFilters(NO_HISTORY_FILTERS)} className="flex items-center gap-1 text-sm text-streek-muted hover:text-white">
+            <XIcon className="w-4 h-4" /> Clear
+          </button>
+        )}
+      </div>
+
+      {selected.size > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mb-4 p-3 bg-streek-neon/5 border border-streek-neon/30 rounded-xl animate-in fade-in">
+          <span className="text-sm font-bold text-white mr-auto">{selected.size} selected</span>
+          {workspaces.length > 0 && (
+            <>
+              <select value={moveTarget} onChange={(e) => setMoveTarget(e.target.value)} className={fieldClass} aria-label="Move to workspace">
+                <option value="">Move to workspace…</option>
+                {workspaces.map(ws => <option key={ws.id} value={ws.id}>{ws.name}</option>)}
+              </select>
+              <button
+                onClick={handleMove}
+                disabled={busy || !moveTarget}
+                className="flex items-center gap-2 px-4 py-2 bg-streek-neon text-streek-black text-sm font-bold rounded-lg hover:brightness-110 disabled:opacity-50"
+              >
+                <FolderIcon className="w-4 h-4" /> Move
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleDelete}
+            disabled={busy}
+            className="flex items-center gap-2 px-4 py-2 bg-red-500/10 hover:bg-red-500/20 text-red-500 border border-red-500/50 rounded-lg text-sm font-bold disabled:opacity-50"
+          >
+            <TrashIcon className="w-4 h-4" /> Delete
+          </button>
+          <button onClick={() => setSelected(new Set())} className="text-sm text-streek-muted hover:text-white">Cancel</button>
+        </div>
+      )}
+
+      <div className="bg-streek-card rounded-2xl p-2 border border-[#333] overflow-hidden">
+        {items.length === 0 ? (
+          <div className="p-8 text-center text-streek-muted">
+            {loading ? 'Loading history...' : filtered ? 'No threads match these filters.' : 'No history yet.'}
+          </div>
+        ) : (
+          <>
+            <label className="flex items-center gap-3 px-4 py-2 text-xs text-streek-muted uppercase tracking-wider font-semibold cursor-pointer">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} className="accent-streek-neon" />
+              Select page
+            </label>
+            <div className={`divide-y divide-[#333] ${loading ? 'opacity-60' : ''}`}>
+              {items.map((item) => (
+                <div
+                  key={item.sessionId}
+                  onClick={() => onOpenThread(item.sessionId, item.title)}
+                  className="flex items-start gap-4 p-4 hover:bg-[#252525] transition-colors cursor-pointer group"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(item.sessionId)}
+                    onChange={() => toggleSelected(item.sessionId)}
+                    onClick={(e) => e.stopPropagation()}
+                    className="mt-1.5 accent-streek-neon"
+                    aria-label={`Select "${item.title}"`}
+                  />
+                  <div className="flex-1 min-w-0">
+                    {renaming?.sessionId === item.sessionId ? (
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <input
+                          autoFocus
+                          value={renaming.draft}
+                          onChange={(e) => setRenaming({ sessionId: item.sessionId, draft: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename();
+                            if (e.key === 'Escape') setRenaming(null);
+                          }}
+                          maxLength={120}
+                          className={`${fieldClass} flex-1 text-base`}
+                          aria-label="Thread title"
+                        />
+                        <button onClick={handleRename} className="p-2 text-streek-neon hover:brightness-110" title="Save title">
+                          <CheckIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setRenaming(null)} className="p-2 text-streek-muted hover:text-white" title="Cancel">
+                          <XIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-3">
+                        <span className="text-streek-text font-medium text-lg truncate group-hover:text-streek-neon transition-colors">{item.title}</span>
+                        {item.ungrounded && <UngroundedBadge reason={item.ungrounded} />}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setRenaming({ sessionId: item.sessionId, draft: item.title });
+                          }}
+                          className="p-1 text-streek-muted hover:text-white opacity-0 group-hover:opacity-100 transition-all"
+                          title="Rename thread"
+                        >
+                          <EditIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                    {item.snippet ? <Snippet text={item.snippet} /> : item.summary && <p className="text-sm text-streek-muted line-clamp-2 mt-1">{item.summary}</p>}
+                  </div>
+                  <div className="text-right text-sm text-streek-muted whitespace-nowrap">
+                    <div>{item.date}</div>
+                    <div className="text-xs">{item.turns} question{item.turns === 1 ? '' : 's'}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      {total > HISTORY_PAGE_SIZE && (
+        <div className="flex items-center justify-between mt-4 text-sm text-streek-muted">
+          <span>{first + 1}–{last} of {total} threads</span>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setPage(p => p - 1)}
+              disabled={loading || page === 0}
+              className="px-4 py-2 bg-[#222] border border-[#333] text-white rounded-lg hover:bg-[#333] disabled:opacity-40"
+            >
+              Previous
+            </button>
+            <button
+              onClick={() => setPage(p => p + 1)}
+              disabled={loading || last >= total}
+              className="px-4 py-2 bg-[#222] border border-[#333] text-white rounded-lg hover:bg-[#333] disabled:opacity-40"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
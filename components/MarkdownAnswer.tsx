@@ -0,0 +1,68 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeHighlight from 'rehype-highlight';
+import { SearchSource } from '../types';
+
+const CITATION_PREFIX = '#cite-';
+
+// Turn inline citation markers like [1] or [1, 2] into links the renderer can pick up.
+// Fenced and inline code is left untouched, and markers that are already links ([1](...)) are skipped.
+const linkCitations = (markdown: string): string =>
+  markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(
+      /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g,
+      (_, nums: string) => nums.split(',').map(n => `[${n.trim()}](${CITATION_PREFIX}${n.trim()})`).join('')
+    ))
+    .join('');
+
+interface MarkdownAnswerProps {
+  content: string;
+  sources?: SearchSource[];
+  activeCitation: number | null; // 0-based index into sources
+  onCitationHover: (index: number | null) => void;
+  onCitationClick: (index: number) => void;
+}
+
+// Renders a model answer as markdown. Raw HTML in the answer is never injected: react-markdown
+// escapes it, and only the element types it produces from markdown are rendered.
+export const MarkdownAnswer: React.FC<MarkdownAnswerProps> = ({ content, sources = [], activeCitation, onCitationHover, onCitationClick }) => (
+  <div className="prose prose-invert prose-p:text-streek-text/90 prose-headings:text-streek-text prose-a:text-streek-neon prose-pre:bg-[#0A0A0A] prose-pre:border prose-pre:border-[#333] max-w-none text-lg leading-relaxed">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm]}
+      rehypePlugins={[rehypeHighlight]}
+      components={{
+        a: ({ href, children }) => {
+          if (href?.startsWith(CITATION_PREFIX)) {
+            const index = parseInt(href.slice(CITATION_PREFIX.length), 10) - 1;
+            const source = sources[index];
+            if (!source) return <sup className="text-streek-muted">[{index + 1}]</sup>;
+            return (
+              <button
+                type="button"
+                title={source.title}
+                onMouseEnter={() => onCitationHover(index)}
+                onMouseLeave={() => onCitationHover(null)}
+                onFocus={() => onCitationHover(index)}
+                onBlur={() => onCitationHover(null)}
+                onClick={() => onCitationClick(index)}
+                className={`inline-flex items-center justify-center align-super mx-0.5 min-w-[1.25rem] h-5 px-1 rounded-md text-[11px] font-bold leading-none transition-colors ${activeCitation === index ? 'bg-streek-neon text-streek-black' : 'bg-streek-card text-streek-muted hover:text-streek-neon'}`}
+              >
+                {index + 1}
+              </button>
+            );
+          }
+          return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+        },
+        table: ({ children }) => (
+          <div className="overflow-x-auto">
+            <table>{children}</table>
+          </div>
+        )
+      }}
+    >
+      {linkCitations(content)}
+    </ReactMarkdown>
+  </div>
+);
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ResearchProgress, ResearchStep } from '../types';
+import { CheckIcon, XIcon, LayersIcon } from './Icons';
+
+interface ResearchProgressPanelProps {
+  progress: ResearchProgress;
+  onCancel?: () => void; // Shown while the run is in progress
+}
+
+const PHASE_LABELS: Record<ResearchProgress['phase'], string> = {
+  planning: 'Planning sub-questions...',
+  researching: 'Searching the web...',
+  writing: 'Writing the report...',
+  done: 'Research complete',
+  cancelled: 'Research cancelled',
+  failed: 'Research failed',
+};
+
+const StepStatusIcon = ({ status }: { status: ResearchStep['status'] }) => {
+  if (status === 'running') {
+    return <div className="w-3.5 h-3.5 border-2 border-streek-muted border-t-streek-neon rounded-full animate-spin"></div>;
+  }
+  if (status === 'done') return <CheckIcon className="w-3.5 h-3.5 text-streek-neon" />;
+  if (status === 'failed') return <XIcon className="w-3.5 h-3.5 text-red-500" />;
+  return <div className="w-2 h-2 rounded-full bg-[#444] mx-[3px]"></div>;
+};
+
+// Live view of a Deep Research run: the plan, each step's status and its intermediate findings
+export const ResearchProgressPanel: React.FC<ResearchProgressPanelProps> = ({ progress, onCancel }) => {
+  const [expandedStep, setExpandedStep] = useState<number | null>(null);
+  const running = progress.phase === 'planning' || progress.phase === 'researching' || progress.phase === 'writing';
+
+  return (
+    <div className="mb-5 rounded-xl border border-[#333] bg-[#151515] overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-[#333] text-xs">
+        <LayersIcon className="w-4 h-4 text-streek-neon" />
+        <span className="font-bold uppercase tracking-wider text-streek-muted">Research Plan</span>
+        <span className={`ml-2 ${progress.phase === 'cancelled' || progress.phase === 'failed' ? 'text-red-400' : 'text-streek-muted'} ${running ? 'animate-pulse' : ''}`}>
+          {PHASE_LABELS[progress.phase]}
+        </span>
+        {running && onCancel && (
+          <button onClick={onCancel} className="ml-auto px-3 py-1 rounded-full border border-red-500/50 text-red-400 hover:bg-red-500/10 font-semibold">
+            Cancel
+          </button>
+        )}
+      </div>
+
+      {progress.steps.length > 0 && (
+        <ol className="divide-y divide-[#333]">
+          {progress.steps.map((step, i) => (
+            <li key={i}>
+              <button
+                onClick={() => setExpandedStep(expandedStep === i ? null : i)}
+                disabled={!step.findings}
+                className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-sm hover:bg-[#1E1E1E] disabled:hover:bg-transparent transition-colors"
+              >
+                <span className="w-4 flex justify-center flex-shrink-0"><StepStatusIcon status={step.status} /></span>
+                <span className={`flex-1 ${step.status === 'failed' ? 'text-streek-muted line-through' : 'text-streek-text/90'}`}>{step.question}</span>
+                {step.sourceCount !== undefined && (
+                  <span className="text-xs text-streek-muted whitespace-nowrap">{step.sourceCount} sources</span>
+                )}
+              </button>
+              {expandedStep === i && step.findings && (
+                <div className="px-11 pb-3 text-xs text-streek-muted whitespace-pre-line max-h-60 overflow-y-auto animate-in fade-in">
+                  {step.findings}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
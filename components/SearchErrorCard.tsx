@@ -0,0 +1,51 @@
+import React from 'react';
+import { SearchErrorCode, SearchFailure } from '../types';
+import { RefreshIcon } from './Icons';
+
+interface SearchErrorCardProps {
+  error: SearchFailure;
+  isLoggedIn: boolean;
+  onRetry?: () => void; // Shown for retryable failures
+  onViewPlan: () => void;
+  onSignIn: () => void;
+  className?: string;
+}
+
+const TITLES: Record<SearchErrorCode, string> = {
+  quota_exceeded: 'Query limit reached',
+  auth: 'Sign in again',
+  safety_blocked: 'Answer blocked',
+  tool_unavailable: 'Web search unavailable',
+  rate_limited: 'StreekX is busy',
+  network: 'Connection problem',
+  timeout: 'Took too long',
+  server: 'Something went wrong',
+};
+
+const HINTS: Partial<Record<SearchErrorCode, string>> = {
+  safety_blocked: 'Try rephrasing your question.',
+  rate_limited: 'Please try again in a minute.',
+};
+
+const actionClass = 'bg-streek-neon text-streek-black font-bold px-5 py-2 rounded-lg text-sm hover:brightness-110 whitespace-nowrap';
+
+// Shown on an answer instead of (or after the partial) answer text when the search failed
+export const SearchErrorCard: React.FC<SearchErrorCardProps> = ({ error, isLoggedIn, onRetry, onViewPlan, onSignIn, className = '' }) => (
+  <div className={`bg-streek-neon/5 border border-streek-neon/30 rounded-xl p-5 flex flex-col sm:flex-row sm:items-center gap-4 animate-in fade-in ${className}`}>
+    <div className="flex-1">
+      <div className="font-bold text-white mb-1">{TITLES[error.code]}</div>
+      <div className="text-sm text-streek-muted">
+        {error.message}{HINTS[error.code] && ` ${HINTS[error.code]}`}
+      </div>
+    </div>
+    {error.code === 'quota_exceeded' && isLoggedIn ? (
+      <button onClick={onViewPlan} className={actionClass}>View Plan</button>
+    ) : error.code === 'quota_exceeded' || error.code === 'auth' ? (
+      <button onClick={onSignIn} className={actionClass}>Sign In</button>
+    ) : error.retryable && onRetry ? (
+      <button onClick={onRetry} className={`${actionClass} flex items-center gap-2`}>
+        <RefreshIcon className="w-4 h-4" /> Retry
+      </button>
+    ) : null}
+  </div>
+);
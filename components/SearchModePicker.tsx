@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { SearchMode } from '../types';
+import { SparklesIcon, LayersIcon, BookIcon, CodeIcon, NewsIcon, CheckIcon } from './Icons';
+
+export const SEARCH_MODES: { id: SearchMode; label: string; description: string; Icon: React.FC<{ className?: string }> }[] = [
+  { id: 'quick', label: 'Quick', description: 'Fast, concise answers', Icon: SparklesIcon },
+  { id: 'deep', label: 'Deep Research', description: 'Researches several angles and writes a full report', Icon: LayersIcon },
+  { id: 'academic', label: 'Academic', description: 'Peer-reviewed papers and scholarly sources', Icon: BookIcon },
+  { id: 'code', label: 'Code', description: 'Working examples from official docs', Icon: CodeIcon },
+  { id: 'news', label: 'News', description: 'Latest developments, newest first', Icon: NewsIcon },
+];
+
+export const searchModeLabel = (mode: SearchMode) => SEARCH_MODES.find(m => m.id === mode)?.label || 'Quick';
+
+interface SearchModePickerProps {
+  value: SearchMode;
+  onChange: (mode: SearchMode) => void;
+  direction?: 'down' | 'up'; // Open upwards when the picker sits at the bottom of the screen
+}
+
+// Mode selector shown next to the search box
+export const SearchModePicker: React.FC<SearchModePickerProps> = ({ value, onChange, direction = 'down' }) => {
+  const [open, setOpen] = useState(false);
+  const current = SEARCH_MODES.find(m => m.id === value) || SEARCH_MODES[0];
+
+  return (
+    <div className="relative flex-shrink-0">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-full border text-sm font-semibold transition-all ${open ? 'border-streek-neon/50 text-streek-neon' : 'border-[#333] text-streek-muted hover:text-white'}`}
+      >
+        <current.Icon className="w-4 h-4" />
+        <span className="hidden sm:inline">{current.label}</span>
+      </button>
+
+      {open && (
+        <div className={`absolute left-0 ${direction === 'up' ? 'bottom-full mb-2' : 'top-full mt-2'} w-72 bg-[#151515] border border-[#333] rounded-xl shadow-2xl z-30 overflow-hidden animate-in fade-in`}>
+          {SEARCH_MODES.map(mode => (
+            <button
+              key={mode.id}
+              type="button"
+              onClick={() => { onChange(mode.id); setOpen(false); }}
+              className="w-full text-left p-3 hover:bg-[#252525] flex items-start gap-3 transition-colors"
+            >
+              <mode.Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${mode.id === value ? 'text-streek-neon' : 'text-streek-muted'}`} />
+              <div className="flex-1">
+                <div className="text-sm text-white font-medium">{mode.label}</div>
+                <div className="text-xs text-streek-muted">{mode.description}</div>
+              </div>
+              {mode.id === value && <CheckIcon className="w-4 h-4 text-streek-neon" />}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ThreadShare } from '../types';
+import { shareThread, fetchThreadShares, revokeShare, shareLink } from '../services/shareService';
+import { ShareIcon, PlusIcon, CheckIcon, TrashIcon } from './Icons';
+
+interface ShareThreadMenuProps {
+  sessionId: string;
+  messageIds: string[]; // The branch being shown; that's what a new link snapshots
+}
+
+// "Share" action shown under the last answer: creates public read-only links to the thread
+// and lists the existing ones so they can be copied or revoked
+export const ShareThreadMenu: React.FC<ShareThreadMenuProps> = ({ sessionId, messageIds }) => {
+  const [open, setOpen] = useState(false);
+  const [shares, setShares] = useState<ThreadShare[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    try {
+      setShares(await fetchThreadShares(sessionId));
+    } catch (err) {
+      console.error("Failed to load shared links:", err);
+    }
+  };
+
+  const copy = async (slug: string) => {
+    try {
+      await navigator.clipboard.writeText(shareLink(slug));
+      setCopied(slug);
+    } catch (err) {
+      console.error("Failed to copy link:", err);
+      prompt("Copy this link:", shareLink(slug));
+    }
+  };
+
+  const handleCreate = async () => {
+    setBusy(true);
+    try {
+      const slug = await shareThread(sessionId, messageIds);
+      setShares(prev => [{ slug, createdAt: new Date().toLocaleDateString() }, ...prev]);
+      await copy(slug);
+    } catch (err) {
+      console.error("Failed to share thread:", err);
+      alert("Failed to create a link");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (slug: string) => {
+    if (!confirm("Revoke this link? Anyone who has it will no longer be able to open the thread.")) return;
+    try {
+      await revokeShare(slug);
+      setShares(prev => prev.filter(s => s.slug !== slug));
+    } catch (err) {
+      console.error("Failed to revoke link:", err);
+      alert("Failed to revoke the link");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        className="flex items-center gap-1 px-3 py-1 rounded-full border border-[#333] text-streek-muted hover:text-white text-xs font-semibold transition-all"
+      >
+        <ShareIcon className="w-3 h-3" /> Share
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-[#151515] border border-[#333] rounded-xl shadow-2xl z-20 overflow-hidden animate-in fade-in slide-in-from-top-2">
+          <div className="p-3 text-xs text-streek-muted">
+            Anyone with a link can read this thread as it is now, without signing in.
+          </div>
+          {shares.length > 0 && (
+            <div className="max-h-64 overflow-y-auto divide-y divide-[#333] border-t border-[#333]">
+              {shares.map(share => (
+                <div key={share.slug} className="p-3 flex items-center gap-3 text-sm text-white">
+                  <button onClick={() => copy(share.slug)} className="flex-1 text-left hover:text-streek-neon min-w-0">
+                    <div className="line-clamp-1">{copied === share.slug ? 'Link copied' : 'Copy link'}</div>
+                    <div className="text-xs text-streek-muted">Shared {share.createdAt}</div>
+                  </button>
+                  {copied === share.slug && <CheckIcon className="w-4 h-4 text-streek-neon flex-shrink-0" />}
+                  <button onClick={() => handleRevoke(share.slug)} title="Revoke link" className="text-streek-muted hover:text-red-500 flex-shrink-0">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={handleCreate}
+            disabled={busy}
+            className="w-full p-3 border-t border-[#333] text-left text-sm text-streek-neon hover:bg-[#252525] flex items-center gap-2 disabled:opacity-50"
+          >
+            <PlusIcon className="w-4 h-4" /> {busy ? 'Creating link...' : 'Create link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
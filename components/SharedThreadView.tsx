@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { SharedThread } from '../types';
+import { fetchSharedThread } from '../services/shareService';
+import { sourceHost } from '../services/attribution';
+import { MarkdownAnswer } from './MarkdownAnswer';
+import { UngroundedBadge } from './UngroundedBadge';
+import { GlobeIcon, SearchIcon } from './Icons';
+
+interface SharedThreadViewProps {
+  slug: string;
+  onExit: () => void; // Leave the shared thread for the app
+}
+
+// Read-only page for a shared link (#/share/<slug>); works without signing in
+export const SharedThreadView: React.FC<SharedThreadViewProps> = ({ slug, onExit }) => {
+  const [thread, setThread] = useState<SharedThread | null | undefined>(undefined);
+  const [activeCitation, setActiveCitation] = useState<{ msgIdx: number; index: number } | null>(null);
+
+  useEffect(() => {
+    setThread(undefined);
+    fetchSharedThread(slug)
+      .then(setThread)
+      .catch(err => {
+        console.error("Failed to load shared thread:", err);
+        setThread(null);
+      });
+  }, [slug]);
+
+  const scrollToSource = (msgIdx: number, index: number) => {
+    setActiveCitation({ msgIdx, index });
+    document.getElementById(`shared-source-${msgIdx}-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+  };
+
+  return (
+    <div className="min-h-screen bg-streek-black text-streek-text">
+      <header className="flex items-center justify-between px-6 py-4 border-b border-streek-card">
+        <span className="font-display font-bold text-xl">Streek<span className="text-streek-neon">X</span></span>
+        <button onClick={onExit} className="flex items-center gap-2 bg-streek-neon text-streek-black font-bold px-4 py-2 rounded-lg text-sm hover:brightness-110">
+          <SearchIcon className="w-4 h-4" /> Ask your own question
+        </button>
+      </header>
+
+      <div className="w-full max-w-4xl mx-auto px-4 pt-8 pb-16 animate-in fade-in">
+        {thread === undefined ? (
+          <div className="text-center text-streek-muted pt-24">Loading shared thread...</div>
+        ) : thread === null ? (
+          <div className="text-center pt-24">
+            <h2 className="text-2xl font-bold text-white mb-2">Link not available</h2>
+            <p className="text-streek-muted">This thread was never shared, or its owner has revoked the link.</p>
+          </div>
+        ) : (
+          <>
+            <div className="text-xs text-streek-muted mb-8">Shared thread · {thread.createdAt} · read-only</div>
+            {thread.messages.map((msg, idx) => (
+              <div key={msg.id} className={`mb-10 ${msg.role === 'user' ? 'border-b border-streek-card pb-8' : ''}`}>
+                {msg.role === 'user' ? (
+                  <h2 className="text-3xl font-display font-medium text-streek-text">{msg.content}</h2>
+                ) : (
+                  <div className="space-y-6">
+                    {msg.sources && msg.sources.length > 0 && (
+                      <div>
+                        <div className="flex items-center gap-2 mb-3 text-streek-muted text-xs uppercase tracking-wider font-semibold">
+                          <GlobeIcon className="w-4 h-4" />
+                          <span>Sources</span>
+                        </div>
+                        <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
+                          {msg.sources.map((source, sIdx) => (
+                            <a
+                              key={sIdx}
+                              id={`shared-source-${idx}-${sIdx}`}
+                              href={source.uri}
+                              target="_blank"
+                              rel="noreferrer"
+                              className={`flex-shrink-0 min-w-[140px] max-w-[200px] p-3 bg-streek-card hover:bg-[#2A2A2A] rounded-lg border transition-all group ${activeCitation?.msgIdx === idx && activeCitation.index === sIdx ? 'border-streek-neon shadow-[0_0_15px_rgba(212,255,91,0.25)]' : 'border-transparent hover:border-streek-neon/20'}`}
+                            >
+                              <div className="flex items-center gap-1 text-xs text-streek-muted whitespace-nowrap overflow-hidden mb-1">
+                                <span className="text-streek-neon font-bold mr-1">{sIdx + 1}</span>
+                                <span className="truncate">{sourceHost(source.uri)}</span>
+                              </div>
+                              <div className="text-sm text-streek-text font-medium line-clamp-2 group-hover:text-streek-neon transition-colors">{source.title}</div>
+                            </a>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="font-semibold text-streek-neon">StreekX Answer</span>
+                        {msg.ungroundedReason && <UngroundedBadge reason={msg.ungroundedReason} />}
+                      </div>
+                      <MarkdownAnswer
+                        content={msg.content}
+                        sources={msg.sources}
+                        activeCitation={activeCitation?.msgIdx === idx ? activeCitation.index : null}
+                        onCitationHover={(index) => setActiveCitation(index === null ? null : { msgIdx: idx, index })}
+                        onCitationClick={(index) => scrollToSource(idx, index)}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
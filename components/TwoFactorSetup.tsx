@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { enrollTotp, activateTotp, disableTotp, TotpEnrollment } from '../services/authService';
+import { CheckIcon, ShieldIcon } from './Icons';
+
+interface TwoFactorSetupProps {
+  mode: 'enroll' | 'disable';
+  onCancel: () => void;
+  onComplete: (enabled: boolean) => void;
+}
+
+// Account panel for turning TOTP two-factor auth on (QR code -> first code -> recovery codes) or off
+export const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ mode, onCancel, onComplete }) => {
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (mode !== 'enroll') return;
+    let cancelled = false;
+
+    enrollTotp()
+      .then(async (result) => {
+        const dataUrl = await QRCode.toDataURL(result.otpauthUri, { margin: 1, width: 192 });
+        if (cancelled) return;
+        setEnrollment(result);
+        setQrDataUrl(dataUrl);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || "Couldn't start two-factor setup.");
+      });
+
+    return () => { cancelled = true; };
+  }, [mode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setLoading(true);
+    setError('');
+    try {
+      if (mode === 'enroll') {
+        setRecoveryCodes(await activateTotp(code.trim()));
+      } else {
+        await disableTotp(code.trim());
+        onComplete(false);
+      }
+    } catch (err: any) {
+      setError(err.message || "Verification failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="bg-[#0F0F0F] rounded-xl p-4 border border-[#333] space-y-3 mt-4 animate-in fade-in slide-in-from-top-2">
+        <div className="text-green-500 text-sm font-bold flex items-center gap-2">
+          <CheckIcon className="w-4 h-4" /> Two-factor authentication is on
+        </div>
+        <p className="text-xs text-streek-muted">
+          Save these recovery codes somewhere safe. Each can be used once to sign in if you lose your authenticator. They won't be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white bg-[#1A1A1A] rounded-lg p-3">
+          {recoveryCodes.map(rc => <span key={rc}>{rc}</span>)}
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => navigator.clipboard?.writeText(recoveryCodes.join('\n'))}
+            className="flex-1 px-4 py-2 border border-[#444] rounded-lg hover:bg-[#333] text-sm transition-all text-white"
+          >
+            Copy Codes
+          </button>
+          <button onClick={() => onComplete(true)} className="flex-1 bg-streek-neon text-streek-black font-bold py-2 rounded-lg text-sm hover:brightness-110">
+            Done
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-[#0F0F0F] rounded-xl p-4 border border-[#333] space-y-3 mt-4 animate-in fade-in slide-in-from-top-2">
+      {mode === 'enroll' ? (
+        <>
+          <p className="text-xs text-streek-muted">Scan this QR code with an authenticator app, then enter the 6-digit code it shows.</p>
+          {enrollment ? (
+            <div className="flex flex-col sm:flex-row items-center gap-4">
+              <img src={qrDataUrl} alt="Authenticator QR code" className="w-40 h-40 rounded-lg bg-white" />
+              <div className="text-xs text-streek-muted break-all">
+                Can't scan? Enter this key manually:
+                <div className="font-mono text-sm text-white mt-1">{enrollment.secret.match(/.{1,4}/g)?.join(' ')}</div>
+              </div>
+            </div>
+          ) : !error && (
+            <div className="py-8 flex justify-center">
+              <div className="w-6 h-6 border-2 border-streek-muted border-t-streek-neon rounded-full animate-spin"></div>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-xs text-streek-muted">Enter a code from your authenticator app or a recovery code to turn off two-factor authentication.</p>
+      )}
+
+      {error && <div className="text-red-500 text-xs font-semibold">{error}</div>}
+
+      <div className="space-y-1">
+        <label className="text-xs uppercase text-streek-muted font-bold">{mode === 'enroll' ? 'Verification Code' : 'Authentication Code'}</label>
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode={mode === 'enroll' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          className="w-full bg-[#1A1A1A] border border-[#333] rounded-lg p-2 text-white text-sm outline-none focus:border-streek-neon tracking-widest"
+          placeholder={mode === 'enroll' ? '123456' : '123456 or xxxxx-xxxxx'}
+        />
+      </div>
+      <div className="flex gap-3">
+        <button type="button" onClick={onCancel} className="px-4 py-2 bg-[#252525] rounded-lg text-sm text-streek-muted hover:text-white">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={loading || !code.trim() || (mode === 'enroll' && !enrollment)}
+          className="flex-1 flex items-center justify-center gap-2 bg-streek-neon text-streek-black font-bold py-2 rounded-lg text-sm hover:brightness-110 disabled:opacity-50"
+        >
+          <ShieldIcon className="w-4 h-4" />
+          {loading ? 'Verifying...' : (mode === 'enroll' ? 'Verify & Enable' : 'Turn Off')}
+        </button>
+      </div>
+    </form>
+  );
+};
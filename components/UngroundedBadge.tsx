@@ -0,0 +1,17 @@
+import React from 'react';
+import { UngroundedReason } from '../types';
+
+export const UNGROUNDED_LABELS: Record<UngroundedReason, { label: string; hint: string }> = {
+  search_unavailable: { label: 'Offline answer', hint: 'Live search was unavailable, so this was answered without web results.' },
+  no_results: { label: 'No web sources', hint: 'This answer doesn\'t cite any web sources.' },
+};
+
+// Marks answers that aren't backed by live web results, in threads and in history
+export const UngroundedBadge = ({ reason }: { reason: UngroundedReason }) => (
+  <span
+    title={UNGROUNDED_LABELS[reason].hint}
+    className="px-2 py-0.5 rounded-full border border-yellow-500/40 text-yellow-400 text-[10px] uppercase tracking-wider font-bold whitespace-nowrap"
+  >
+    {UNGROUNDED_LABELS[reason].label}
+  </span>
+);
@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Workspace, WorkspaceContents } from '../types';
+import { ArrowRightIcon, FolderIcon, GlobeIcon, HistoryIcon, EditIcon, TrashIcon, PlusIcon, CheckIcon, XIcon, SearchIcon, SparklesIcon } from './Icons';
+
+interface WorkspaceDetailProps {
+  workspace: Workspace;
+  contents: WorkspaceContents | null;
+  onBack: () => void;
+  onStartThread: (query: string) => void;
+  onUpdateInstructions: (instructions: string) => void;
+  onOpenThread: (sessionId: string, title: string) => void;
+  onRemoveThread: (sessionId: string) => void;
+  onRemoveSource: (sourceId: string) => void;
+  onAddNote: (content: string) => void;
+  onUpdateNote: (noteId: string, content: string) => void;
+  onDeleteNote: (noteId: string) => void;
+}
+
+export const WorkspaceDetail: React.FC<WorkspaceDetailProps> = ({
+  workspace, contents, onBack, onStartThread, onUpdateInstructions, onOpenThread, onRemoveThread, onRemoveSource, onAddNote, onUpdateNote, onDeleteNote
+}) => {
+  const [newNote, setNewNote] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
+  const [threadQuery, setThreadQuery] = useState('');
+  const [isEditingInstructions, setIsEditingInstructions] = useState(false);
+  const [instructionsDraft, setInstructionsDraft] = useState('');
+
+  const handleStartThread = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!threadQuery.trim()) return;
+    onStartThread(threadQuery.trim());
+    setThreadQuery('');
+  };
+
+  const handleAddNote = () => {
+    if (!newNote.trim()) return;
+    onAddNote(newNote.trim());
+    setNewNote('');
+  };
+
+  const handleSaveNote = () => {
+    if (!editingNoteId || !editingContent.trim()) return;
+    onUpdateNote(editingNoteId, editingContent.trim());
+    setEditingNoteId(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 pt-12 pb-24 animate-in fade-in duration-300">
+      <button onClick={onBack} className="flex items-center gap-2 text-streek-muted hover:text-white text-sm mb-6">
+        <ArrowRightIcon className="w-4 h-4 rotate-180" /> All Collections
+      </button>
+
+      <div className="flex items-start gap-4 mb-8">
+        <div className="p-3 bg-streek-card rounded-xl text-streek-neon">
+          <FolderIcon className="w-8 h-8" />
+        </div>
+        <div>
+          <h2 className="text-4xl font-display font-bold text-streek-text mb-2">{workspace.name}</h2>
+          <p className="text-streek-muted">{workspace.description}</p>
+        </div>
+      </div>
+
+      {/* Threads started here get the workspace's description, instructions, notes and sources as context */}
+      <form onSubmit={handleStartThread} className="relative mb-6">
+        <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+          <SearchIcon className="w-5 h-5 text-streek-muted" />
+        </div>
+        <input
+          type="text"
+          value={threadQuery}
+          onChange={(e) => setThreadQuery(e.target.value)}
+          placeholder={`Research in ${workspace.name}...`}
+          className="block w-full rounded-full bg-streek-card text-streek-text border border-transparent focus:border-streek-neon/50 focus:ring-1 focus:ring-streek-neon/30 placeholder-streek-muted focus:outline-none transition-all py-4 pl-12 pr-14"
+        />
+        <button type="submit" disabled={!threadQuery.trim()} className="absolute inset-y-0 right-2 my-auto h-fit p-2 rounded-full text-streek-neon hover:bg-streek-neon/10 disabled:text-streek-muted">
+          <ArrowRightIcon className="w-5 h-5" />
+        </button>
+      </form>
+
+      <div className="bg-streek-card rounded-2xl border border-[#333] p-4 mb-10">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-streek-muted uppercase tracking-wider text-xs font-bold flex items-center gap-2">
+            <SparklesIcon className="w-4 h-4" /> Workspace Instructions
+          </div>
+          {isEditingInstructions ? (
+            <div className="flex gap-3">
+              <button onClick={() => { onUpdateInstructions(instructionsDraft.trim()); setIsEditingInstructions(false); }} className="text-green-500 text-sm font-bold hover:underline">Save</button>
+              <button onClick={() => setIsEditingInstructions(false)} className="text-streek-muted text-sm hover:text-white">Cancel</button>
+            </div>
+          ) : (
+            <button onClick={() => { setInstructionsDraft(workspace.instructions); setIsEditingInstructions(true); }} className="text-streek-neon text-sm font-semibold hover:underline">
+              Edit
+            </button>
+          )}
+        </div>
+        {isEditingInstructions ? (
+          <textarea
+            autoFocus
+            value={instructionsDraft}
+            onChange={(e) => setInstructionsDraft(e.target.value)}
+            placeholder="e.g. Focus on peer-reviewed sources from the last 5 years and answer in bullet points."
+            className="w-full bg-[#0F0F0F] border border-[#333] rounded-lg px-3 py-2 text-white text-sm focus:border-streek-neon outline-none min-h-[80px]"
+          />
+        ) : (
+          <p className="text-sm text-streek-text/80 whitespace-pre-line">
+            {workspace.instructions || <span className="text-streek-muted italic">No instructions. Threads use the description, notes and pinned sources as context.</span>}
+          </p>
+        )}
+      </div>
+
+      {!contents ? (
+        <div className="py-24 flex justify-center">
+          <div className="w-8 h-8 border-2 border-streek-muted border-t-streek-neon rounded-full animate-spin"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Threads */}
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-streek-card rounded-2xl border border-[#333] overflow-hidden">
+              <div className="p-4 border-b border-[#333] text-streek-muted uppercase tracking-wider text-xs font-bold flex items-center gap-2">
+                <HistoryIcon className="w-4 h-4" /> Threads ({contents.threads.length})
+              </div>
+              {contents.threads.length === 0 ? (
+                <div className="p-8 text-center text-streek-muted text-sm">Use "Add to workspace" on any answer to save its thread here.</div>
+              ) : (
+                <div className="divide-y divide-[#333]">
+                  {contents.threads.map(thread => (
+                    <div key={thread.sessionId} className="flex items-center justify-between p-4 hover:bg-[#252525] transition-colors group">
+                      <button onClick={() => onOpenThread(thread.sessionId, thread.title)} className="flex-1 text-left">
+                        <div className="text-white font-medium line-clamp-1 group-hover:text-streek-neon transition-colors">{thread.title}</div>
+                        {thread.summary && <p className="text-sm text-streek-muted line-clamp-2 mt-1">{thread.summary}</p>}
+                        <div className="text-xs text-streek-muted mt-1">Added {thread.addedAt}</div>
+                      </button>
+                      <button onClick={() => onRemoveThread(thread.sessionId)} className="text-streek-muted hover:text-red-500 p-2 opacity-0 group-hover:opacity-100 transition-all">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Pinned Sources */}
+            <div className="bg-streek-card rounded-2xl border border-[#333] overflow-hidden">
+              <div className="p-4 border-b border-[#333] text-streek-muted uppercase tracking-wider text-xs font-bold flex items-center gap-2">
+                <GlobeIcon className="w-4 h-4" /> Pinned Sources ({contents.sources.length})
+              </div>
+              {contents.sources.length === 0 ? (
+                <div className="p-8 text-center text-streek-muted text-sm">Sources of saved answers are pinned here.</div>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-4">
+                  {contents.sources.map(source => (
+                    <div key={source.id} className="relative p-3 bg-[#0F0F0F] rounded-lg border border-transparent hover:border-streek-neon/20 transition-all group">
+                      <a href={source.uri} target="_blank" rel="noreferrer" className="block pr-6">
+                        <div className="text-xs text-streek-muted line-clamp-1 mb-1">{source.uri.replace(/^https?:\/\//, '').split('/')[0]}</div>
+                        <div className="text-sm text-streek-text font-medium line-clamp-2 group-hover:text-streek-neon transition-colors">{source.title}</div>
+                      </a>
+                      <button onClick={() => onRemoveSource(source.id)} className="absolute top-2 right-2 text-streek-muted hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all">
+                        <XIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Notes */}
+          <div className="bg-streek-card rounded-2xl border border-[#333] overflow-hidden h-fit">
+            <div className="p-4 border-b border-[#333] text-streek-muted uppercase tracking-wider text-xs font-bold flex items-center gap-2">
+              <EditIcon className="w-4 h-4" /> Notes
+            </div>
+            <div className="p-4 space-y-3">
+              <textarea
+                placeholder="Write a note..."
+                value={newNote}
+                onChange={(e) => setNewNote(e.target.value)}
+                className="w-full bg-[#0F0F0F] border border-[#333] rounded-lg px-3 py-2 text-white text-sm focus:border-streek-neon outline-none min-h-[80px]"
+              />
+              <button onClick={handleAddNote} disabled={!newNote.trim()} className="w-full flex items-center justify-center gap-2 bg-streek-neon text-streek-black font-bold py-2 rounded-lg text-sm hover:brightness-110 disabled:opacity-50">
+                <PlusIcon className="w-4 h-4" /> Add Note
+              </button>
+
+              {contents.notes.map(note => (
+                <div key={note.id} className="bg-[#0F0F0F] rounded-lg border border-[#333] p-3 group">
+                  {editingNoteId === note.id ? (
+                    <>
+                      <textarea
+                        autoFocus
+                        value={editingContent}
+                        onChange={(e) => setEditingContent(e.target.value)}
+                        className="w-full bg-[#1A1A1A] border border-[#333] rounded-lg px-3 py-2 text-white text-sm focus:border-streek-neon outline-none min-h-[80px]"
+                      />
+                      <div className="flex gap-3 mt-2">
+                        <button onClick={handleSaveNote} className="text-green-500 text-xs font-bold flex items-center gap-1"><CheckIcon className="w-3 h-3" /> Save</button>
+                        <button onClick={() => setEditingNoteId(null)} className="text-streek-muted text-xs hover:text-white">Cancel</button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-streek-text/90 whitespace-pre-line">{note.content}</p>
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-[10px] text-streek-muted uppercase tracking-wider">{note.updatedAt}</span>
+                        <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-all">
+                          <button onClick={() => { setEditingNoteId(note.id); setEditingContent(note.content); }} className="text-streek-muted hover:text-streek-neon">
+                            <EditIcon className="w-3 h-3" />
+                          </button>
+                          <button onClick={() => onDeleteNote(note.id)} className="text-streek-muted hover:text-red-500">
+                            <TrashIcon className="w-3 h-3" />
+                          </button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
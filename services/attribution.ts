@@ -0,0 +1,59 @@
+import { GroundingSegment } from "../types";
+
+export type ClaimStatus = 'grounded' | 'unsupported' | 'neutral';
+
+export interface AttributedSentence {
+  text: string;
+  start: number;
+  end: number;
+  status: ClaimStatus;
+  sourceIndices: number[];
+  confidence: number; // Best confidence among the supporting sources (0 when unsupported)
+}
+
+// Headings, list markers, table rules and very short fragments are not factual claims
+const isNeutral = (sentence: string) => {
+  const trimmed = sentence.trim();
+  return trimmed.length < 15 || /^(#{1,6}\s|[-|:\s]+$)/.test(trimmed) || !/[a-z0-9]/i.test(trimmed);
+};
+
+// Split an answer into sentences and mark each one as grounded (overlapped by at least one
+// grounding segment) or unsupported, so readers can see which claims have no backing
+export const attributeSentences = (text: string, segments: GroundingSegment[] = []): AttributedSentence[] => {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+  const sentences: AttributedSentence[] = [];
+
+  for (const { segment, index } of segmenter.segment(text)) {
+    // A sentence segment can span several lines (e.g. list items), so attribute each line on its own
+    let offset = index;
+    for (const line of segment.split(/(?<=\n)/)) {
+      const start = offset;
+      const end = offset + line.length;
+      offset = end;
+
+      const supports = segments.filter(s => s.start < end && s.end > start);
+      const sourceIndices = [...new Set(supports.flatMap(s => s.sourceIndices))];
+      const confidence = Math.max(0, ...supports.flatMap(s => s.confidence));
+
+      sentences.push({
+        text: line,
+        start,
+        end,
+        status: isNeutral(line) ? 'neutral' : sourceIndices.length > 0 ? 'grounded' : 'unsupported',
+        sourceIndices,
+        confidence
+      });
+    }
+  }
+
+  return sentences;
+};
+
+// The site a source is from, for its card; stored sources aren't guaranteed to be valid URLs
+export const sourceHost = (uri: string) => {
+  try {
+    return new URL(uri).hostname;
+  } catch {
+    return uri;
+  }
+};
@@ -0,0 +1,133 @@
+import { supabaseUrl, supabaseKey, setSessionToken } from "./supabaseClient";
+
+// Passwords are verified by the 'auth' edge function; the browser only keeps the signed
+// session token it returns.
+const AUTH_ENDPOINT = `${supabaseUrl}/functions/v1/auth`;
+const SESSION_KEY = 'streekx_session_token';
+const LEGACY_SESSION_KEY = 'streekx_session_id'; // Raw user UUID stored by older builds
+
+export interface Session {
+  token: string;
+  userId: string;
+  streekxId: string;
+  expiresAt: number; // Unix seconds
+}
+
+// Returned by signIn when the account has two-factor auth; finish with completeMfaSignIn
+export interface MfaChallenge {
+  mfaToken: string;
+}
+
+export interface TotpEnrollment {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // Encoded in the QR code
+}
+
+export interface SignupDetails {
+  name: string;
+  streekxId: string;
+  password: string;
+  gender: string;
+  dob: string;
+  phone: string;
+}
+
+// Read the claims of a stored token. The signature is checked by the server on every request,
+// so this only decides whether the client should consider itself signed in.
+const decodeSession = (token: string): Session | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (!payload.sub || typeof payload.exp !== 'number') return null;
+    return { token, userId: payload.sub, streekxId: payload.streekx_id, expiresAt: payload.exp };
+  } catch {
+    return null;
+  }
+};
+
+export const getSession = (): Session | null => {
+  localStorage.removeItem(LEGACY_SESSION_KEY);
+
+  const token = localStorage.getItem(SESSION_KEY);
+  if (!token) return null;
+
+  const session = decodeSession(token);
+  if (!session || session.expiresAt * 1000 <= Date.now()) {
+    signOut();
+    return null;
+  }
+  setSessionToken(token);
+  return session;
+};
+
+export const signOut = () => {
+  localStorage.removeItem(SESSION_KEY);
+  setSessionToken(null);
+};
+
+const callAuth = async (action: string, payload: Record<string, unknown>) => {
+  const token = getSession()?.token || supabaseKey;
+  const response = await fetch(AUTH_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'apikey': supabaseKey,
+      'Authorization': `Bearer ${token}`
+    },
+    body: JSON.stringify({ action, ...payload })
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Connection error. Please try again.");
+  }
+  return data;
+};
+
+const startSession = (token: string): Session => {
+  const session = decodeSession(token);
+  if (!session) {
+    throw new Error("Received an invalid session. Please try again.");
+  }
+  localStorage.setItem(SESSION_KEY, token);
+  setSessionToken(token);
+  return session;
+};
+
+export const signUp = async (details: SignupDetails): Promise<Session> => {
+  const { token } = await callAuth('signup', { ...details });
+  return startSession(token);
+};
+
+export const signIn = async (streekxId: string, password: string): Promise<Session | MfaChallenge> => {
+  const { token, mfaRequired, mfaToken } = await callAuth('login', { streekxId, password });
+  if (mfaRequired) return { mfaToken };
+  return startSession(token);
+};
+
+// Second login step: a code from the authenticator app or an unused recovery code
+export const completeMfaSignIn = async (mfaToken: string, code: string): Promise<Session> => {
+  const { token } = await callAuth('login-mfa', { mfaToken, code });
+  return startSession(token);
+};
+
+// Signs every other session out; this one continues with the returned token.
+// `code` (authenticator or recovery code) is required when two-factor auth is on.
+export const changePassword = async (currentPassword: string, password: string, code?: string): Promise<Session> => {
+  const { token } = await callAuth('change-password', { currentPassword, password, code });
+  return startSession(token);
+};
+
+export const enrollTotp = async (): Promise<TotpEnrollment> => {
+  const { secret, otpauthUri } = await callAuth('totp-enroll', {});
+  return { secret, otpauthUri };
+};
+
+// Confirms enrolment with a first code; returns the recovery codes, which are only shown once
+export const activateTotp = async (code: string): Promise<string[]> => {
+  const { recoveryCodes } = await callAuth('totp-activate', { code });
+  return recoveryCodes;
+};
+
+export const disableTotp = async (code: string): Promise<void> => {
+  await callAuth('totp-disable', { code });
+};
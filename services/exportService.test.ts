@@ -0,0 +1,164 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExportedThread, ImportError, importedMessages, parseExport, threadExport, workspaceExport } from './exportService';
+import { fetchThreadMessages, saveThreadMessages } from './threadService';
+import { fetchWorkspaceContents, importWorkspace } from './workspaceService';
+import { ChatMessage, Workspace, WorkspaceContents } from '../types';
+
+// An in-memory stand-in for the few PostgREST calls the thread and workspace services make
+const tables: Record<string, any[]> = {};
+let clock = 0;
+
+vi.mock('./supabaseClient', () => {
+  const from = (table: string) => {
+    const rows = (tables[table] ??= []);
+    const filters: ((row: any) => boolean)[] = [];
+    let sort: ((a: any, b: any) => number) | null = null;
+    let written: any[] | null = null;
+    let changes: Record<string, unknown> | null = null;
+    let single = false;
+    const write = (values: any[]) => {
+      written = values.map(v => {
+        const at = new Date(Date.now() + ++clock).toISOString();
+        return { id: crypto.randomUUID(), created_at: at, updated_at: at, ...v };
+      });
+      rows.push(...written);
+      return builder;
+    };
+    const builder: any = {
+      insert: write,
+      upsert: write,
+      update: (values: Record<string, unknown>) => { changes = values; return builder; },
+      select: () => builder,
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      order: (column: string, { ascending = true } = {}) => {
+        sort = (a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1);
+        return builder;
+      },
+      single: () => { single = true; return builder; },
+      then: (resolve: (result: unknown) => void) => {
+        let data = written ?? rows.filter(row => filters.every(f => f(row)));
+        if (changes) data.forEach(row => Object.assign(row, changes));
+        if (sort) data = [...data].sort(sort);
+        resolve({ data: single ? data[0] : data, error: null });
+      }
+    };
+    return builder;
+  };
+  return { supabase: { from }, supabaseUrl: 'http://localhost', supabaseKey: 'anon', setSessionToken: () => {} };
+});
+
+const USER_ID = 'user-1';
+
+const SOURCES = [
+  { title: 'Battery review', uri: 'https://b.example/review' },
+  { title: 'Cell prices', uri: 'https://c.example/prices#table' }
+];
+
+// A thread with every detail a turn can carry, and a second version of its follow-up
+const MESSAGES: ChatMessage[] = [
+  { id: 'q1', parentId: null, role: 'user', content: 'Are batteries getting better?', mode: 'deep' },
+  {
+    id: 'a1', parentId: 'q1', role: 'model', content: 'Yes, and cheaper [1][2].', mode: 'deep',
+    sources: SOURCES,
+    segments: [{ start: 0, end: 24, text: 'Yes, and cheaper [1][2].', sourceIndices: [0, 1], confidence: [0.9, 0.6] }],
+    searchQueries: ['battery improvements 2026']
+  },
+  { id: 'q2', parentId: 'a1', role: 'user', content: 'Why?', mode: 'quick' },
+  { id: 'a2', parentId: 'q2', role: 'model', content: 'Solid-state cells.', mode: 'quick', sources: [], segments: [], searchQueries: [], ungroundedReason: 'no_results' },
+  { id: 'q2b', parentId: 'a1', role: 'user', content: 'How much cheaper?', mode: 'news' },
+  { id: 'a2b', parentId: 'q2b', role: 'model', content: 'About 14% [1].', mode: 'news', sources: [SOURCES[1]], segments: [], searchQueries: ['battery prices'] }
+];
+
+const WORKSPACE: Workspace = {
+  id: 'ws-1',
+  name: 'Batteries',
+  description: 'Where storage is heading',
+  lastModified: '2026-10-01',
+  status: 'active',
+  instructions: 'Prefer primary sources.'
+};
+
+const CONTENTS: WorkspaceContents = {
+  threads: [],
+  sources: [{ id: 's1', ...SOURCES[1], sessionId: null }, { id: 's2', ...SOURCES[0], sessionId: null }],
+  notes: [{ id: 'n1', content: 'Check the 2025 figures.', updatedAt: '' }, { id: 'n2', content: 'Ask about recycling.', updatedAt: '' }]
+};
+
+// Turns compared without their ids, which every import replaces
+const withoutIds = <T extends ExportedThread>({ messages, ...thread }: T) => {
+  const position = new Map(messages.map((m, i) => [m.id, i]));
+  return { ...thread, messages: messages.map(m => ({ ...m, id: position.get(m.id), parentId: m.parentId && position.get(m.parentId) })) };
+};
+
+// A file as read back, so edits to it don't reach MESSAGES
+const exportFile = () => JSON.parse(JSON.stringify(threadExport('Batteries', MESSAGES)));
+
+const withoutDate = <T extends { exportedAt: string }>({ exportedAt: _, ...data }: T) => data;
+
+beforeEach(() => {
+  Object.keys(tables).forEach(table => delete tables[table]);
+});
+
+describe('thread exports', () => {
+  it('import back as the same thread, through a file and through storage', async () => {
+    const exported = threadExport('Batteries', MESSAGES);
+    const parsed = parseExport(JSON.stringify(exported));
+    if (parsed.type !== 'streekx.thread') throw new Error('Expected a thread export');
+
+    const imported = importedMessages(parsed);
+    expect(imported.map(m => m.id)).not.toContain('q1');
+    expect(withoutDate(withoutIds(threadExport('Batteries', imported)))).toEqual(withoutDate(withoutIds(exported)));
+
+    await saveThreadMessages(USER_ID, 'session-1', imported);
+    const stored = await fetchThreadMessages(USER_ID, 'session-1');
+    expect(withoutDate(threadExport('Batteries', stored))).toEqual(withoutDate(threadExport('Batteries', imported)));
+  });
+
+  it('drops modes, reasons and segments this version does not know', () => {
+    const exported = exportFile();
+    exported.messages[0].mode = 'turbo';
+    exported.messages[1].segments.push({ start: 0, end: 500, text: 'x', sourceIndices: [0], confidence: [1] });
+    exported.messages[1].segments.push({ start: 0, end: 3, text: 'Yes', sourceIndices: [7], confidence: [1] });
+    exported.messages[3].ungroundedReason = 'offline';
+    exported.messages[5].searchQueries = ['battery prices', 42];
+
+    const parsed = parseExport(JSON.stringify(exported));
+    if (parsed.type !== 'streekx.thread') throw new Error('Expected a thread export');
+    expect(parsed.messages[0].mode).toBeUndefined();
+    expect(parsed.messages[1].segments).toEqual(MESSAGES[1].segments);
+    expect(parsed.messages[3].ungroundedReason).toBeUndefined();
+    expect(parsed.messages[5].searchQueries).toEqual(['battery prices']);
+  });
+
+  it.each(['javascript:alert(1)', 'not a url', 'ftp://files.example/report.pdf'])('refuses a source linking to %s', uri => {
+    const exported = exportFile();
+    exported.messages[1].sources[0].uri = uri;
+    expect(() => parseExport(JSON.stringify(exported))).toThrow(ImportError);
+  });
+});
+
+describe('workspace exports', () => {
+  it('import back as the same workspace', async () => {
+    const threads = [
+      { title: 'Are batteries getting better?', messages: MESSAGES },
+      { title: 'Grid storage', messages: [{ id: 'g1', parentId: null, role: 'user', content: 'Grid storage?', mode: 'quick' } as ChatMessage] }
+    ];
+    const exported = workspaceExport(WORKSPACE, CONTENTS, threads);
+    const parsed = parseExport(JSON.stringify(exported));
+    if (parsed.type !== 'streekx.workspace') throw new Error('Expected a workspace export');
+
+    const workspaceId = await importWorkspace(USER_ID, parsed);
+
+    const row = tables.workspaces.find(w => w.id === workspaceId);
+    const contents = await fetchWorkspaceContents(workspaceId);
+    const storedThreads = await Promise.all(contents.threads.map(async t => ({
+      title: t.title,
+      messages: await fetchThreadMessages(USER_ID, t.sessionId)
+    })));
+    const reexported = workspaceExport({ ...WORKSPACE, id: workspaceId, name: row.name, description: row.description, instructions: row.instructions }, contents, storedThreads);
+
+    expect({ ...withoutDate(reexported), threads: reexported.threads.map(withoutIds) })
+      .toEqual({ ...withoutDate(exported), threads: exported.threads.map(withoutIds) });
+  });
+});
@@ -0,0 +1,309 @@
+import { createElement } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { ChatMessage, GroundingSegment, SearchMode, SearchSource, UngroundedReason, Workspace, WorkspaceContents } from "../types";
+import { newMessageId } from "./threadTree";
+
+// Threads and workspaces as files: Markdown with one numbered reference list, a standalone
+// HTML page meant for printing (or saving as PDF), and JSON that imports back losslessly
+// (see parseExport; the stored copies are made by threadService / workspaceService).
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_VERSION = 1;
+
+// Everything stored for a turn; ids only tie the turns of one file together
+export type ExportedMessage = Pick<ChatMessage,
+  'id' | 'parentId' | 'role' | 'content' | 'sources' | 'segments' | 'searchQueries' | 'mode' | 'ungroundedReason'>;
+
+export interface ExportedThread {
+  title: string;
+  messages: ExportedMessage[]; // Every version of every turn, parents before their children
+}
+
+export interface ThreadExport extends ExportedThread {
+  type: 'streekx.thread';
+  version: number;
+  exportedAt: string;
+}
+
+export interface WorkspaceExport {
+  type: 'streekx.workspace';
+  version: number;
+  exportedAt: string;
+  workspace: Pick<Workspace, 'name' | 'description' | 'instructions'>;
+  notes: string[];
+  sources: SearchSource[]; // Pinned sources
+  threads: ExportedThread[];
+}
+
+export type StreekXExport = ThreadExport | WorkspaceExport;
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+const toExportedMessage = ({ id, parentId, role, content, sources, segments, searchQueries, mode, ungroundedReason }: ChatMessage): ExportedMessage =>
+  ({ id, parentId, role, content, sources, segments, searchQueries, mode, ungroundedReason });
+
+// Answers still streaming or that failed have nothing worth keeping; a follow-up asked after
+// one is moved up under the question it answered, as when it is stored
+const exportable = (messages: ChatMessage[]) => {
+  const dropped = new Map<string, string | null>();
+  const kept: ChatMessage[] = [];
+  for (const message of messages) {
+    let parentId = message.parentId;
+    while (parentId !== null && dropped.has(parentId)) parentId = dropped.get(parentId)!;
+    if (message.isStreaming || (message.role === 'model' && message.error && !message.content)) {
+      dropped.set(message.id, parentId);
+    } else {
+      kept.push(parentId === message.parentId ? message : { ...message, parentId });
+    }
+  }
+  return kept;
+};
+
+// The turns a document shows: the newest version at every fork (exports of what's on screen
+// only contain that branch)
+const shownTurns = (messages: ExportedMessage[]) => {
+  const byParent = new Map<string | null, ExportedMessage>();
+  messages.forEach(m => byParent.set(m.parentId, m)); // The newest version wins, as in threadFromMessages
+  const turns: ExportedMessage[] = [];
+  for (let m = byParent.get(null); m; m = byParent.get(m.id)) turns.push(m);
+  return turns;
+};
+
+// --- Markdown ---
+
+const CITATIONS = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+// Rewrite [n] markers (outside code) from an answer's own source numbers to the document's
+const renumberCitations = (markdown: string, numbers: number[]) =>
+  markdown
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/)
+    .map((part, i) => i % 2 === 1 ? part : part.replace(CITATIONS, (marker, nums: string) => {
+      const renumbered = nums.split(',').map(n => numbers[Number(n.trim()) - 1]);
+      return renumbered.every(Boolean) ? `[${renumbered.join(', ')}]` : marker;
+    }))
+    .join('');
+
+// Collects the sources of every answer into one numbered list, first use first
+const createReferences = () => {
+  const references: SearchSource[] = [];
+  return {
+    references,
+    cite: (answer: ExportedMessage) => renumberCitations(answer.content, (answer.sources || []).map(source => {
+      const index = references.findIndex(r => r.uri === source.uri);
+      return (index >= 0 ? index : references.push(source) - 1) + 1;
+    }))
+  };
+};
+
+const turnsMarkdown = (turns: ExportedMessage[], cite: (answer: ExportedMessage) => string, heading: string) =>
+  turns.map(turn => turn.role === 'user'
+    ? `${heading} ${turn.content.replace(/\s*\n\s*/g, ' ')}`
+    : [turn.ungroundedReason && '> Answered without live web results.', cite(turn)].filter(Boolean).join('\n\n')
+  ).join('\n\n');
+
+const referencesMarkdown = (references: SearchSource[]) =>
+  references.length > 0
+    ? `## References\n\n${references.map((s, i) => `${i + 1}. [${s.title.replace(/[[\]]/g, '')}](${s.uri})`).join('\n')}`
+    : '';
+
+export const threadToMarkdown = (thread: ExportedThread) => {
+  const { references, cite } = createReferences();
+  const body = turnsMarkdown(shownTurns(thread.messages), cite, '##');
+  return [`# ${thread.title}`, body, referencesMarkdown(references)].filter(Boolean).join('\n\n') + '\n';
+};
+
+export const workspaceToMarkdown = (data: WorkspaceExport) => {
+  const { references, cite } = createReferences();
+  return [
+    `# ${data.workspace.name}`,
+    data.workspace.description,
+    data.workspace.instructions && `## Instructions\n\n${data.workspace.instructions}`,
+    data.notes.length > 0 && `## Notes\n\n${data.notes.map(note => `- ${note.replace(/\n/g, '\n  ')}`).join('\n')}`,
+    ...data.threads.map(thread => `## ${thread.title}\n\n${turnsMarkdown(shownTurns(thread.messages), cite, '###')}`),
+    data.sources.length > 0 && `## Pinned sources\n\n${data.sources.map(s => `- [${s.title.replace(/[[\]]/g, '')}](${s.uri})`).join('\n')}`,
+    referencesMarkdown(references)
+  ].filter(Boolean).join('\n\n') + '\n';
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+
+const PRINT_STYLES = `
+  @page { margin: 2cm; }
+  body { font-family: Georgia, 'Times New Roman', serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.6; }
+  h1, h2, h3 { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.25; page-break-after: avoid; }
+  h2 { margin-top: 2.5rem; border-bottom: 1px solid #ddd; padding-bottom: 0.3rem; }
+  a { color: #0b57d0; word-break: break-word; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #ccc; color: #555; }
+  pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; }
+  footer { margin-top: 3rem; color: #777; font-size: 0.8rem; }
+  @media print { a { color: inherit; } pre { page-break-inside: avoid; } }`;
+
+// A standalone page for a Markdown document. The markdown is rendered like answers are in the
+// app, so any HTML inside it is escaped, never injected.
+export const markdownToHtml = async (title: string, markdown: string) => {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  const body = renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, markdown));
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${PRINT_STYLES}
+</style>
+</head>
+<body>
+${body}
+<footer>Exported from StreekX on ${escapeHtml(new Date().toLocaleDateString())}</footer>
+</body>
+</html>
+`;
+};
+
+// --- JSON ---
+
+export const threadExport = (title: string, messages: ChatMessage[]): ThreadExport => ({
+  type: 'streekx.thread',
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  title,
+  messages: exportable(messages).map(toExportedMessage)
+});
+
+export const workspaceExport = (
+  workspace: Workspace,
+  contents: WorkspaceContents,
+  threads: { title: string; messages: ChatMessage[] }[]
+): WorkspaceExport => ({
+  type: 'streekx.workspace',
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  workspace: { name: workspace.name, description: workspace.description, instructions: workspace.instructions },
+  notes: contents.notes.map(note => note.content),
+  sources: contents.sources.map(({ title, uri }) => ({ title, uri })),
+  threads: threads.map(thread => ({ title: thread.title, messages: exportable(thread.messages).map(toExportedMessage) }))
+});
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Only web pages: a source's uri becomes a link and a favicon lookup
+const isWebUri = (value: unknown) => {
+  if (!isString(value)) return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const isSource = (value: any): value is SearchSource => !!value && isString(value.title) && isWebUri(value.uri);
+
+const SEARCH_MODES: Record<SearchMode, true> = { quick: true, deep: true, academic: true, code: true, news: true };
+const UNGROUNDED_REASONS: Record<UngroundedReason, true> = { search_unavailable: true, no_results: true };
+
+const isIndex = (value: unknown, length: number) => Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+
+const isSegment = (value: any, content: string, sourceCount: number): value is GroundingSegment =>
+  !!value && isString(value.text)
+  && isIndex(value.start, content.length + 1) && isIndex(value.end, content.length + 1) && value.start <= value.end
+  && Array.isArray(value.sourceIndices) && value.sourceIndices.every((i: unknown) => isIndex(i, sourceCount))
+  && Array.isArray(value.confidence) && value.confidence.length === value.sourceIndices.length
+  && value.confidence.every((c: unknown) => typeof c === 'number' && c >= 0 && c <= 1);
+
+const validThread = (value: any): value is ExportedThread => {
+  if (!value || !isString(value.title) || !Array.isArray(value.messages)) return false;
+  const ids = new Set<string>();
+  return value.messages.every((m: any) => {
+    const valid = !!m && isString(m.id) && !ids.has(m.id)
+      && (m.parentId === null || ids.has(m.parentId)) // Parents come first
+      && (m.role === 'user' || m.role === 'model')
+      && isString(m.content)
+      && (m.sources === undefined || (Array.isArray(m.sources) && m.sources.every(isSource)));
+    ids.add(m.id);
+    return valid;
+  });
+};
+
+// The details of a turn only change how it's shown, so ones this version doesn't know (or
+// that don't fit the turn) are dropped rather than refusing the file
+const cleanMessage = (m: any): ExportedMessage => {
+  const { id, parentId, role, content, sources, segments, searchQueries, mode, ungroundedReason } = m;
+  return {
+    id, parentId, role, content, sources,
+    segments: Array.isArray(segments) ? segments.filter(s => isSegment(s, content, sources?.length ?? 0)) : undefined,
+    searchQueries: Array.isArray(searchQueries) ? searchQueries.filter(isString) : undefined,
+    mode: isString(mode) && Object.hasOwn(SEARCH_MODES, mode) ? mode as SearchMode : undefined,
+    ungroundedReason: isString(ungroundedReason) && Object.hasOwn(UNGROUNDED_REASONS, ungroundedReason)
+      ? ungroundedReason as UngroundedReason
+      : undefined
+  };
+};
+
+const cleanThread = (thread: ExportedThread): ExportedThread => ({ title: thread.title, messages: thread.messages.map(cleanMessage) });
+
+// The turns of an imported thread, with new ids since the exported ones may still be stored
+export const importedMessages = (thread: ExportedThread): ChatMessage[] => {
+  const ids = new Map(thread.messages.map(m => [m.id, newMessageId()]));
+  return thread.messages.map(m => ({ ...m, id: ids.get(m.id)!, parentId: m.parentId && ids.get(m.parentId)! }));
+};
+
+// Check a file's contents before importing it. Files from newer versions of StreekX are refused.
+export const parseExport = (text: string): StreekXExport => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError("This file isn't a StreekX export.");
+  }
+  if (data?.type !== 'streekx.thread' && data?.type !== 'streekx.workspace') {
+    throw new ImportError("This file isn't a StreekX export.");
+  }
+  if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+    throw new ImportError("This file was exported by a newer version of StreekX.");
+  }
+
+  const valid = data.type === 'streekx.thread'
+    ? validThread(data)
+    : !!data.workspace && isString(data.workspace.name)
+      && Array.isArray(data.notes) && data.notes.every(isString)
+      && Array.isArray(data.sources) && data.sources.every(isSource)
+      && Array.isArray(data.threads) && data.threads.every(validThread);
+  if (!valid) throw new ImportError("This export is damaged and can't be imported.");
+  if (data.type === 'streekx.thread') return { ...data, ...cleanThread(data) };
+  return { ...data, threads: data.threads.map(cleanThread) };
+};
+
+// --- Files ---
+
+export const exportFileName = (title: string, format: ExportFormat) => {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'streekx';
+  return `${base}.${format === 'markdown' ? 'md' : format}`;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json'
+};
+
+export const downloadFile = (fileName: string, content: string, format: ExportFormat) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${MIME_TYPES[format]};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
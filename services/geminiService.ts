@@ -1,115 +1,476 @@
-import { GoogleGenAI, Chat } from "@google/genai";
-import { SearchSource } from "../types";
+import { SearchSource, GroundingSegment, WorkspaceContext, QuotaStatus, SearchErrorCode, SearchPreferences, SearchMode, UngroundedReason } from "../types";
+import { supabaseUrl, supabaseKey } from "./supabaseClient";
+import { getSession } from "./authService";
+import { ResearchModelClient, ResearchAgentOptions, runResearchAgent, ResearchCancelledError } from "./researchAgent";
+import { fetchThreadMessages } from "./threadService";
+import { threadFromMessages, activePath } from "./threadTree";
+import { withRetry } from "./retry";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Gemini is only called from the 'search' edge function, so the API key never reaches the browser
+const SEARCH_ENDPOINT = `${supabaseUrl}/functions/v1/search`;
 
-// Store active chat sessions by ID to support follow-up questions (Perplexity Flow)
-const chatSessions = new Map<string, Chat>();
+// How long to wait for the search function to start answering. It gives the model 45s, and
+// may summarise the thread first.
+const RESPONSE_TIMEOUT_MS = 60000;
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+interface ChatSession {
+  history: ChatTurn[];
+  workspace?: WorkspaceContext; // Saved research the thread builds on, fixed when the thread starts
+  // Set by the search function once the thread outgrew its history budget: covers the first
+  // `turns` entries of `history`, which are then no longer sent
+  summary?: { text: string; turns: number };
+}
+
+// Store the turns of each thread by ID to support follow-up questions (Perplexity Flow).
+// The edge function is stateless, so the history is sent along with every query.
+// A thread this page hasn't seen (after a reload, or reopened from history) is rebuilt from
+// its stored turns.
+const chatSessions = new Map<string, ChatSession>();
+
+export interface SearchOptions {
+  workspace?: WorkspaceContext; // Only used when the session is created
+  preferences?: SearchPreferences; // Safe search and data saver, applied to every query
+  mode?: SearchMode; // Defaults to 'quick'
+  history?: ChatTurn[]; // Replaces the thread's earlier turns, e.g. when an earlier turn is regenerated
+  signal?: AbortSignal; // Stops the answer; the text so far is returned with `stopped`
+  retryToken?: string; // From the SearchError of a failed attempt, so asking again isn't counted twice
+}
 
 export interface GenerationResult {
   text: string;
   sources: SearchSource[];
+  segments: GroundingSegment[];
+  searchQueries: string[];
+  usage?: QuotaStatus;
+  stopped?: boolean;
+  grounded: boolean; // Backed by live web results
+  ungroundedReason?: UngroundedReason;
+  retryToken?: string; // For a 'search_unavailable' answer: asks again with search without counting it
+  followUpToken?: string; // Pays for this answer's follow-up suggestions (see suggestFollowUps)
+  summaryToken?: string; // First answer of a signed-in user's thread: pays for its title (see summarizeThread)
 }
 
-export const generateSearchResponse = async (
-  prompt: string,
-  sessionId: string,
-  onChunk: (text: string) => void
-): Promise<GenerationResult> => {
+// Tokens sent with the 'done' event of a finished answer
+type DoneTokens = Pick<GenerationResult, 'followUpToken' | 'summaryToken'>;
+
+type Grounding = Pick<GenerationResult, 'grounded' | 'ungroundedReason' | 'retryToken'>;
+
+// An answer without cited sources isn't grounded, even when search was available
+const groundingOf = (sources: SearchSource[], offline?: { retryToken?: string }): Grounding => {
+  if (offline) return { grounded: false, ungroundedReason: 'search_unavailable', retryToken: offline.retryToken };
+  return sources.length > 0 ? { grounded: true } : { grounded: false, ungroundedReason: 'no_results' };
+};
+
+const RETRYABLE_CODES: SearchErrorCode[] = ['tool_unavailable', 'rate_limited', 'network', 'timeout', 'server'];
+
+// Failures the search view shows as a card instead of mixing them into the answer text
+export class SearchError extends Error {
+  constructor(public code: SearchErrorCode, message: string, public quota?: QuotaStatus, public retryToken?: string) {
+    super(message);
+    this.name = 'SearchError';
+  }
+
+  get retryable() {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+// The search function's error codes; 'run_expired' means the research run has to start again.
+// 'rate_limited' and 'misconfigured' are the model provider's limits and key, not the user's.
+const SERVER_CODES: Record<string, SearchErrorCode> = {
+  quota_exceeded: 'quota_exceeded',
+  run_expired: 'timeout',
+  safety_blocked: 'safety_blocked',
+  tool_unavailable: 'tool_unavailable',
+  rate_limited: 'rate_limited',
+  timeout: 'timeout',
+  misconfigured: 'server',
+  server: 'server'
+};
+
+const toSearchError = (data: { error?: string; code?: string; quota?: QuotaStatus; retryToken?: string }, status: number) => {
+  const code = (data.code && SERVER_CODES[data.code]) || (status === 401 || status === 403 ? 'auth' : 'server');
+  const fallback = code === 'auth' ? "Your session has expired. Please sign in again." : `Search request failed (${status})`;
+  return new SearchError(code, data.error || fallback, data.quota, data.retryToken);
+};
+
+// Retry transient failures, but only while nothing has been shown: a retried answer starts over
+const retryUntilOutput = <T>(attempt: () => Promise<T>, hasOutput: () => boolean, signal?: AbortSignal) =>
+  withRetry(attempt, {
+    signal,
+    shouldRetry: (error) => error instanceof SearchError && error.retryable && !hasOutput()
+  });
+
+// One line of the NDJSON stream returned by the edge function
+type SearchStreamEvent =
+  | ({ type: 'usage' } & QuotaStatus)
+  | { type: 'context'; summary: string; summarizedTurns: number }
+  | { type: 'ungrounded'; reason: 'search_unavailable'; retryToken?: string }
+  | { type: 'text'; text: string }
+  | { type: 'sources'; sources: SearchSource[] }
+  | { type: 'grounding'; segments: GroundingSegment[]; searchQueries: string[] }
+  | ({ type: 'done' } & DoneTokens)
+  | { type: 'error'; message: string; code?: string; retryToken?: string };
+
+async function* readEvents(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SearchStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  // The caller's abort stops the stream (postSearch only watches the signal until the headers arrive)
+  const cancel = () => reader.cancel().catch(() => {});
+  signal?.addEventListener('abort', cancel, { once: true });
+
   try {
-    let chat = chatSessions.get(sessionId);
-
-    // If no session exists, create one with strict Perplexity-like instructions
-    if (!chat) {
-      chat = ai.chats.create({
-        model: 'gemini-3-flash-preview',
-        config: {
-          tools: [{ googleSearch: {} }],
-          systemInstruction: `You are StreekX, a real-time AI search engine. 
-RULES:
-- NEVER answer from your own knowledge.
-- ALWAYS use the googleSearch tool for every query to get the latest information.
-- If the search tool returns no results, state that you cannot find the information.
-- Provide concise, accurate answers in markdown.
-- Do not guess or hallucinate.
-- Always cite your sources inline using the provided grounding metadata.`,
-        }
-      });
-      chatSessions.set(sessionId, chat);
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new SearchError('network', "The connection was lost while the answer was being written.");
+      }
+      signal?.throwIfAborted();
+      const { done, value } = chunk;
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line);
+      }
     }
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+const streamError = ({ message, code, retryToken }: { message: string; code?: string; retryToken?: string }) =>
+  toSearchError({ error: message, code: code || 'server', retryToken }, 500);
 
-    // Send message to the chat session (maintains history/context)
-    const responseStream = await chat.sendMessageStream({
-      message: prompt
+// POST to the search function, turning every failure except the caller's abort into a SearchError
+const postSearch = async (body: Record<string, unknown>, signal?: AbortSignal) => {
+  // Aborted by the caller's signal or the timeout while waiting for the headers (readEvents
+  // watches the signal while the body streams)
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  const timer = setTimeout(abort, RESPONSE_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(SEARCH_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseKey,
+        // Signed-in queries count against the user's plan, guests against the Guest plan
+        'Authorization': `Bearer ${getSession()?.token || supabaseKey}`
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
     });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (controller.signal.aborted) {
+      throw new SearchError('timeout', "StreekX took too long to respond.");
+    }
+    throw new SearchError('network', "Couldn't reach StreekX. Check your connection.");
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
 
-    let fullText = '';
-    let sources: SearchSource[] = [];
+  if (!response.ok) {
+    throw toSearchError(await response.json().catch(() => ({})), response.status);
+  }
+  return response;
+};
 
-    for await (const chunk of responseStream) {
-      const text = chunk.text;
-      if (text) {
-        fullText += text;
-        onChunk(text);
-      }
-      
-      // Extract sources from grounding metadata
-      const groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks;
-      if (groundingChunks) {
-        groundingChunks.forEach((c: any) => {
-          if (c.web) {
-            sources.push({
-              title: c.web.title || 'Source',
-              uri: c.web.uri || '#'
-            });
-          }
-        });
+// The stored turns of the thread's newest branch. Guests' threads aren't stored.
+// A trailing question without an answer is left out: it's either the question being asked
+// now (saved before it is sent) or one whose answer failed.
+const loadStoredTurns = async (sessionId: string): Promise<ChatTurn[]> => {
+  const userId = getSession()?.userId;
+  if (!userId) return [];
+  try {
+    const path = activePath(threadFromMessages(await fetchThreadMessages(userId, sessionId)));
+    if (path[path.length - 1]?.role === 'user') path.pop();
+    return path
+      .filter(m => m.content)
+      .map(m => ({ role: m.role, content: m.content }));
+  } catch (error) {
+    console.warn("Couldn't restore the thread's earlier turns:", error);
+    return [];
+  }
+};
+
+const sameTurns = (a: ChatTurn[], b: ChatTurn[]) =>
+  a.length === b.length && a.every((turn, i) => turn.role === b[i].role && turn.content === b[i].content);
+
+const getOrCreateSession = async (sessionId: string, options: SearchOptions) => {
+  let session = chatSessions.get(sessionId);
+
+  // If no session exists, start one with the workspace context (if the thread belongs to one)
+  if (!session) {
+    session = { history: options.history ? [] : await loadStoredTurns(sessionId), workspace: options.workspace };
+    chatSessions.set(sessionId, session);
+  }
+  if (options.history) {
+    // The summary only still applies if the turns it covers are unchanged
+    const { summary } = session;
+    if (summary && !sameTurns(session.history.slice(0, summary.turns), options.history.slice(0, summary.turns))) {
+      session.summary = undefined;
+    }
+    session.history = options.history;
+  }
+  return session;
+};
+
+// What the search function is sent as the thread's context
+const sessionContext = ({ history, summary, workspace }: ChatSession) => ({
+  history: history.slice(summary?.turns || 0),
+  summary: summary?.text,
+  workspace
+});
+
+const applyContextEvent = (session: ChatSession, event: { summary: string; summarizedTurns: number }) => {
+  session.summary = { text: event.summary, turns: (session.summary?.turns || 0) + event.summarizedTurns };
+};
+
+export const generateSearchResponse = async (
+  prompt: string,
+  sessionId: string,
+  onChunk: (text: string) => void,
+  options: SearchOptions = {}
+): Promise<GenerationResult> => {
+  const session = await getOrCreateSession(sessionId, options);
+  const { history } = session;
+  let fullText = '';
+  let sources: SearchSource[] = [];
+  let segments: GroundingSegment[] = [];
+  let searchQueries: string[] = [];
+  let usage: QuotaStatus | undefined;
+  let offline: { retryToken?: string } | undefined;
+  let retryToken = options.retryToken;
+  let done: DoneTokens = {};
+
+  const attempt = async () => {
+    sources = [];
+    segments = [];
+    searchQueries = [];
+    offline = undefined;
+    const response = await postSearch({ ...sessionContext(session), query: prompt, preferences: options.preferences, mode: options.mode, retryToken }, options.signal);
+    if (!response.body) {
+      throw new SearchError('server', "Search response has no body");
+    }
+
+    for await (const event of readEvents(response.body, options.signal)) {
+      if (event.type === 'usage') {
+        usage = { plan: event.plan, used: event.used, limit: event.limit, resetsAt: event.resetsAt };
+      } else if (event.type === 'context') {
+        applyContextEvent(session, event);
+      } else if (event.type === 'ungrounded') {
+        offline = { retryToken: event.retryToken };
+      } else if (event.type === 'text') {
+        fullText += event.text;
+        onChunk(event.text);
+      } else if (event.type === 'sources') {
+        sources = event.sources;
+      } else if (event.type === 'grounding') {
+        segments = event.segments;
+        searchQueries = event.searchQueries;
+      } else if (event.type === 'done') {
+        done = { followUpToken: event.followUpToken, summaryToken: event.summaryToken };
+      } else if (event.type === 'error') {
+        throw streamError(event);
       }
     }
+  };
 
-    const uniqueSources = sources.filter((source, index, self) =>
-      index === self.findIndex((t) => (
-        t.uri === source.uri
-      ))
+  try {
+    await retryUntilOutput(
+      () => attempt().catch((error) => {
+        // A counted attempt that failed pays for the next one
+        if (error instanceof SearchError && error.retryToken) retryToken = error.retryToken;
+        throw error;
+      }),
+      () => fullText !== '',
+      options.signal
     );
 
+    // Only completed turns become context for the next follow-up
+    session.history = [
+      ...history,
+      { role: 'user', content: prompt },
+      { role: 'model', content: fullText }
+    ];
+
     return {
       text: fullText,
-      sources: uniqueSources
+      sources,
+      segments,
+      searchQueries,
+      usage,
+      ...done,
+      ...groundingOf(sources, offline)
     };
 
   } catch (error: any) {
-    console.warn("Gemini Search/Chat Error:", error);
-    
-    // Fallback logic if 403 or tool error occurs
-    try {
-        const fallbackModel = 'gemini-3-flash-preview';
-        const fallbackStream = await ai.models.generateContentStream({
-            model: fallbackModel,
-            contents: prompt,
-            config: {
-                systemInstruction: "You are StreekX. The live search tool is temporarily unavailable. Provide a helpful response based on your training data. Briefly mention that this is an offline response."
-            }
-        });
-
-        let fullText = '';
-        const notice = "\n(Live search unavailable. Using offline knowledge.)\n\n";
-        fullText += notice;
-        onChunk(notice);
-
-        for await (const chunk of fallbackStream) {
-            const text = chunk.text;
-            if (text) {
-                fullText += text;
-                onChunk(text);
-            }
-        }
-        return { text: fullText, sources: [] };
+    // Stopped by the user: keep what was written so far as the answer
+    if (options.signal?.aborted) {
+      session.history = [
+        ...history,
+        { role: 'user', content: prompt },
+        { role: 'model', content: fullText }
+      ];
+      return { text: fullText, sources, segments: [], searchQueries, usage, stopped: true, ...groundingOf(sources, offline) };
+    }
+
+    if (error instanceof SearchError) throw error;
+    console.warn("StreekX Search Error:", error);
+    throw new SearchError('server', "Something went wrong while answering.");
+  }
+};
+
+// Research client backed by the search function's plan / research / report steps.
+// The plan step is the one counted against the quota; its run token pays for the rest.
+export const createResearchClient = (
+  session: ChatSession,
+  options: SearchOptions,
+  onUsage?: (usage: QuotaStatus) => void,
+  onDone?: (tokens: DoneTokens) => void
+): ResearchModelClient => {
+  const base = { ...sessionContext(session), preferences: options.preferences, mode: options.mode || 'deep' };
+  let runToken = '';
+
+  return {
+    async plan(question, signal) {
+      const data = await (await postSearch({ ...base, step: 'plan', query: question }, signal)).json();
+      runToken = data.runToken;
+      if (data.usage) onUsage?.(data.usage);
+      return data.subQueries;
+    },
+    async research(subQuestion, signal) {
+      const response = await retryUntilOutput(
+        () => postSearch({ ...base, step: 'research', query: subQuestion, runToken }, signal),
+        () => false,
+        signal
+      );
+      const data = await response.json();
+      return { text: data.text || '', sources: data.sources || [] };
+    },
+    async report(question, notes, sources, onChunk, signal) {
+      let text = '';
+      await retryUntilOutput(async () => {
+        const response = await postSearch({ ...base, step: 'report', query: question, notes, sources, runToken }, signal);
+        if (!response.body) throw new SearchError('server', "Search response has no body");
 
-    } catch (fallbackError) {
-        const errorMsg = "\n\n(Error: Unable to connect to AI service. Please check your connection.)\n";
-        onChunk(errorMsg);
-        return { text: errorMsg, sources: [] };
+        for await (const event of readEvents(response.body, signal)) {
+          if (event.type === 'context') {
+            applyContextEvent(session, event);
+          } else if (event.type === 'text') {
+            text += event.text;
+            onChunk(event.text);
+          } else if (event.type === 'done') {
+            onDone?.({ followUpToken: event.followUpToken, summaryToken: event.summaryToken });
+          } else if (event.type === 'error') {
+            throw streamError(event);
+          }
+        }
+      }, () => text !== '', signal);
+      return text;
     }
+  };
+};
+
+// Deep Research: run the agent loop for the thread and return its report like a normal answer.
+// Cancelling (options.signal) rejects with ResearchCancelledError.
+export const generateResearchReport = async (
+  prompt: string,
+  sessionId: string,
+  onChunk: (text: string) => void,
+  options: SearchOptions & Pick<ResearchAgentOptions, 'onProgress'> = {}
+): Promise<GenerationResult> => {
+  const session = await getOrCreateSession(sessionId, options);
+  let usage: QuotaStatus | undefined;
+  let done: DoneTokens = {};
+  const client = createResearchClient(session, options, (u) => { usage = u; }, (tokens) => { done = tokens; });
+
+  try {
+    const result = await runResearchAgent(prompt, client, {
+      signal: options.signal,
+      onProgress: options.onProgress,
+      onChunk
+    });
+
+    session.history = [
+      ...session.history,
+      { role: 'user', content: prompt },
+      { role: 'model', content: result.text }
+    ];
+
+    return {
+      text: result.text,
+      sources: result.sources,
+      segments: [],
+      searchQueries: result.steps.map(step => step.question),
+      usage,
+      ...done,
+      ...groundingOf(result.sources)
+    };
+  } catch (error: any) {
+    if (error instanceof SearchError || error instanceof ResearchCancelledError) throw error;
+    console.warn("StreekX Research Error:", error);
+    throw new SearchError('server', error.message || "The research run failed.");
+  }
+};
+
+// 3-5 questions to ask next, grounded in the thread, the answer and its sources. `history` is
+// the thread before `prompt`. Suggestions are optional, so any failure just means there are none.
+export const suggestFollowUps = async (
+  prompt: string,
+  answer: Pick<GenerationResult, 'text' | 'sources' | 'followUpToken'>,
+  history: ChatTurn[],
+  options: Pick<SearchOptions, 'preferences' | 'mode'> = {}
+): Promise<string[]> => {
+  if (!answer.followUpToken || !answer.text) return [];
+  try {
+    const response = await postSearch({
+      step: 'followups',
+      query: prompt,
+      answer: answer.text,
+      sources: answer.sources,
+      history,
+      followUpToken: answer.followUpToken,
+      preferences: options.preferences,
+      mode: options.mode
+    });
+    const data = await response.json();
+    return Array.isArray(data.questions) ? data.questions.filter((q: unknown) => typeof q === 'string') : [];
+  } catch (error) {
+    console.warn("Couldn't load follow-up suggestions:", error);
+    return [];
+  }
+};
+
+// What people are searching the web for today, for the home page of guests and new users (the
+// search function refreshes the list hourly). Like follow-ups, a failure just means there are none.
+export const fetchTrendingQuestions = async (): Promise<string[]> => {
+  try {
+    const response = await postSearch({ step: 'trends' });
+    const data = await response.json();
+    return Array.isArray(data.questions) ? data.questions.filter((q: unknown) => typeof q === 'string') : [];
+  } catch (error) {
+    console.warn("Couldn't load trending questions:", error);
+    return [];
   }
-};
\ No newline at end of file
+};
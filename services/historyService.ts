@@ -0,0 +1,93 @@
+import { supabase } from "./supabaseClient";
+import { HistoryFilters, HistoryItem } from "../types";
+
+// The History view: the signed-in user's threads, searched, filtered and paged on the
+// server by search_history() (see supabase_schema.sql).
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export const NO_HISTORY_FILTERS: HistoryFilters = { query: '', from: '', to: '', workspaceId: '' };
+
+// Local midnight of a 'YYYY-MM-DD' date, shifted by `days`
+const startOfDay = (date: string, days = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + days);
+  return day.toISOString();
+};
+
+export const fetchHistoryPage = async (
+  filters: HistoryFilters,
+  offset = 0,
+  limit = HISTORY_PAGE_SIZE
+): Promise<{ items: HistoryItem[]; total: number }> => {
+  const { data, error } = await supabase.rpc('search_history', {
+    p_query: filters.query.trim() || null,
+    p_from: filters.from ? startOfDay(filters.from) : null,
+    p_to: filters.to ? startOfDay(filters.to, 1) : null, // The end date is included
+    p_workspace_id: filters.workspaceId || null,
+    p_limit: limit,
+    p_offset: offset
+  });
+  if (error) throw error;
+
+  const rows = (data || []) as any[];
+  return {
+    items: rows.map(r => ({
+      sessionId: r.session_id,
+      title: r.title,
+      summary: r.summary || undefined,
+      snippet: r.snippet || undefined,
+      turns: r.turns,
+      date: new Date(r.last_active).toLocaleDateString(),
+      ungrounded: r.ungrounded_reason || undefined
+    })),
+    total: rows.length > 0 ? Number(rows[0].total) : 0
+  };
+};
+
+// Delete threads with every version of every turn and their titles, and take them out of the
+// workspaces they were saved into. Pinned sources and shared links are copies, so they stay.
+export const deleteThreads = async (userId: string, sessionIds: string[]) => {
+  const { error } = await supabase.from('messages').delete().eq('user_id', userId).in('session_id', sessionIds);
+  if (error) throw error;
+
+  const [titles, workspaceThreads] = await Promise.all([
+    supabase.from('threads').delete().eq('user_id', userId).in('session_id', sessionIds),
+    supabase.from('workspace_threads').delete().eq('user_id', userId).in('session_id', sessionIds)
+  ]);
+  const cleanupError = titles.error || workspaceThreads.error;
+  if (cleanupError) throw cleanupError;
+};
+
+// Home page chips
+export const HOME_SUGGESTIONS = 4;
+const SUGGESTION_SOURCE_ANSWERS = 10;
+
+// Follow-ups suggested under the user's latest answers that they haven't asked yet, taking one
+// from each answer in turn so the chips cover several threads; `trending` questions (see
+// fetchTrendingQuestions) fill any gap, so new users start with what guests see
+export const fetchHomeSuggestions = async (userId: string, trending: string[]): Promise<string[]> => {
+  const [answers, questions] = await Promise.all([
+    supabase.from('messages').select('follow_ups')
+      .eq('user_id', userId).eq('role', 'model').not('follow_ups', 'is', null)
+      .order('created_at', { ascending: false }).limit(SUGGESTION_SOURCE_ANSWERS),
+    supabase.from('messages').select('content')
+      .eq('user_id', userId).eq('role', 'user')
+      .order('created_at', { ascending: false }).limit(100)
+  ]);
+  const error = answers.error || questions.error;
+  if (error) throw error;
+
+  const asked = new Set((questions.data || []).map((q: any) => String(q.content).trim().toLowerCase()));
+  const lists: string[][] = (answers.data || []).map((a: any) => Array.isArray(a.follow_ups) ? a.follow_ups : []);
+  const suggestions: string[] = [];
+  for (let i = 0; suggestions.length < HOME_SUGGESTIONS && lists.some(list => i < list.length); i++) {
+    for (const list of lists) {
+      const question = list[i];
+      if (typeof question === 'string' && !asked.has(question.toLowerCase()) && !suggestions.includes(question)) {
+        suggestions.push(question);
+      }
+    }
+  }
+  return [...suggestions, ...trending.filter(q => !asked.has(q.toLowerCase()) && !suggestions.includes(q))].slice(0, HOME_SUGGESTIONS);
+};
@@ -0,0 +1,42 @@
+import { supabase } from "./supabaseClient";
+import { UserPreferences } from "../types";
+
+// Reads and writes the signed-in user's row in user_preferences. A missing row means the
+// user never changed anything, so the defaults apply.
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  safeSearch: true,
+  notifications: false,
+  highContrast: false,
+  dataSaver: false,
+};
+
+export const toPreferences = (row: any): UserPreferences => ({
+  safeSearch: row.safe_search ?? DEFAULT_PREFERENCES.safeSearch,
+  notifications: row.notifications ?? DEFAULT_PREFERENCES.notifications,
+  highContrast: row.high_contrast ?? DEFAULT_PREFERENCES.highContrast,
+  dataSaver: row.data_saver ?? DEFAULT_PREFERENCES.dataSaver,
+});
+
+export const fetchPreferences = async (userId: string): Promise<UserPreferences> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('safe_search, notifications, high_contrast, data_saver')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toPreferences(data) : DEFAULT_PREFERENCES;
+};
+
+export const savePreferences = async (userId: string, preferences: UserPreferences) => {
+  const { error } = await supabase.from('user_preferences').upsert([{
+    user_id: userId,
+    safe_search: preferences.safeSearch,
+    notifications: preferences.notifications,
+    high_contrast: preferences.highContrast,
+    data_saver: preferences.dataSaver,
+    updated_at: new Date().toISOString()
+  }], { onConflict: 'user_id' });
+  if (error) throw error;
+};
@@ -0,0 +1,158 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ResearchCancelledError, ResearchFindings, ResearchModelClient, mergeSources, runResearchAgent } from './researchAgent';
+import { ResearchProgress, SearchSource } from '../types';
+
+const source = (uri: string, title = uri): SearchSource => ({ title, uri });
+
+const FINDINGS: Record<string, ResearchFindings> = {
+  'battery chemistry': {
+    text: 'Solid-state cells store more energy.',
+    sources: [source('https://a.example/cells'), source('https://b.example/review')]
+  },
+  'battery costs': {
+    text: 'Prices fell 14% last year.',
+    sources: [source('https://b.example/review/'), source('https://c.example/prices#table')]
+  }
+};
+
+// A scripted client: plans FINDINGS' questions, researches from FINDINGS and streams `report`
+const mockClient = (overrides: Partial<ResearchModelClient> = {}): ResearchModelClient => ({
+  plan: vi.fn(async () => Object.keys(FINDINGS)),
+  research: vi.fn(async (subQuestion: string) => FINDINGS[subQuestion]),
+  report: vi.fn(async (_question, _notes, _sources, onChunk) => {
+    onChunk('Batteries are ');
+    onChunk('getting better [1].');
+    return 'Batteries are getting better [1].';
+  }),
+  ...overrides
+});
+
+// Rejects like an aborted fetch once `signal` fires (or straight away if it already has)
+const untilAborted = (signal: AbortSignal) =>
+  new Promise<never>((_, reject) => {
+    const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal.aborted) abort();
+    signal.addEventListener('abort', abort);
+  });
+
+describe('mergeSources', () => {
+  it('numbers sources from 1 in first-seen order, treating URI variants as one page', () => {
+    const { merged, numbers } = mergeSources([
+      FINDINGS['battery chemistry'].sources,
+      FINDINGS['battery costs'].sources
+    ]);
+    expect(merged.map(s => s.uri)).toEqual(['https://a.example/cells', 'https://b.example/review', 'https://c.example/prices#table']);
+    expect(numbers).toEqual([[1, 2], [2, 3]]);
+  });
+});
+
+describe('runResearchAgent', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('plans, researches the sub-questions in parallel, merges their sources and writes the report', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const client = mockClient({
+      research: vi.fn(async (subQuestion: string) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        running--;
+        return FINDINGS[subQuestion];
+      })
+    });
+    const chunks: string[] = [];
+    const phases: ResearchProgress['phase'][] = [];
+
+    const result = await runResearchAgent('Are batteries getting better?', client, {
+      onChunk: chunk => chunks.push(chunk),
+      onProgress: progress => phases.push(progress.phase)
+    });
+
+    expect(maxRunning).toBe(2);
+    expect(client.plan).toHaveBeenCalledWith('Are batteries getting better?', expect.any(AbortSignal));
+
+    const [question, notes, sources] = vi.mocked(client.report).mock.calls[0];
+    expect(question).toBe('Are batteries getting better?');
+    expect(notes).toContain('### battery chemistry\nSolid-state cells store more energy.\nSources: [1] [2]');
+    expect(notes).toContain('### battery costs\nPrices fell 14% last year.\nSources: [2] [3]');
+    expect(sources).toHaveLength(3);
+
+    expect(result.text).toBe('Batteries are getting better [1].');
+    expect(chunks.join('')).toBe(result.text);
+    expect(result.sources).toEqual(sources);
+    expect(result.steps).toEqual([
+      { question: 'battery chemistry', status: 'done', findings: FINDINGS['battery chemistry'].text, sourceCount: 2 },
+      { question: 'battery costs', status: 'done', findings: FINDINGS['battery costs'].text, sourceCount: 2 }
+    ]);
+    expect([...new Set(phases)]).toEqual(['planning', 'researching', 'writing', 'done']);
+  });
+
+  it('writes the report without a step that failed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = mockClient({
+      research: vi.fn(async (subQuestion: string) => {
+        if (subQuestion === 'battery chemistry') throw new Error('search failed');
+        return FINDINGS[subQuestion];
+      })
+    });
+
+    const result = await runResearchAgent('Are batteries getting better?', client);
+
+    expect(result.steps.map(step => step.status)).toEqual(['failed', 'done']);
+    const [, notes, sources] = vi.mocked(client.report).mock.calls[0];
+    expect(notes).not.toContain('battery chemistry');
+    expect(notes).toContain('### battery costs');
+    expect(sources.map(s => s.uri)).toEqual(['https://b.example/review/', 'https://c.example/prices#table']);
+  });
+
+  it('fails without a report when every step failed', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const client = mockClient({ research: vi.fn(async () => { throw new Error('search failed'); }) });
+    let last: ResearchProgress | undefined;
+
+    await expect(runResearchAgent('Are batteries getting better?', client, { onProgress: p => { last = p; } }))
+      .rejects.toThrow('None of the research steps returned results.');
+    expect(client.report).not.toHaveBeenCalled();
+    expect(last?.phase).toBe('failed');
+  });
+
+  it('stops with the progress and partial text when cancelled while the report is written', async () => {
+    const controller = new AbortController();
+    const client = mockClient({
+      report: vi.fn(async (_question, _notes, _sources, onChunk, signal) => {
+        onChunk('Batteries are ');
+        controller.abort();
+        return untilAborted(signal);
+      })
+    });
+
+    const error = await runResearchAgent('Are batteries getting better?', client, { signal: controller.signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ResearchCancelledError);
+    expect(error.partialText).toBe('Batteries are ');
+    expect(error.progress.phase).toBe('cancelled');
+    expect(error.progress.steps.map((step: { status: string }) => step.status)).toEqual(['done', 'done']);
+  });
+
+  it('stops with the steps so far when cancelled while researching', async () => {
+    const controller = new AbortController();
+    const client = mockClient({
+      research: vi.fn(async (subQuestion: string, signal: AbortSignal) => {
+        if (subQuestion === 'battery chemistry') return FINDINGS[subQuestion];
+        controller.abort();
+        return untilAborted(signal);
+      })
+    });
+
+    const error = await runResearchAgent('Are batteries getting better?', client, { signal: controller.signal }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ResearchCancelledError);
+    expect(error.partialText).toBe('');
+    expect(error.progress.phase).toBe('cancelled');
+    expect(error.progress.steps.map((step: { status: string }) => step.status)).toEqual(['done', 'running']);
+    expect(client.report).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import { SearchSource, ResearchProgress, ResearchStep } from "../types";
+
+// Agent loop for hard questions: plan sub-questions, run a grounded search for each, merge
+// their sources into one numbered list, then write a cited synthesis from the findings.
+// The model is behind ResearchModelClient, so the loop runs the same against the 'search'
+// edge function (createResearchClient in geminiService.ts) or a mocked client.
+
+export interface ResearchFindings {
+  text: string;
+  sources: SearchSource[];
+}
+
+export interface ResearchModelClient {
+  plan(question: string, signal: AbortSignal): Promise<string[]>;
+  research(subQuestion: string, signal: AbortSignal): Promise<ResearchFindings>;
+  // Streams the synthesis; `sources` are numbered from 1 in the order given
+  report(question: string, notes: string, sources: SearchSource[], onChunk: (text: string) => void, signal: AbortSignal): Promise<string>;
+}
+
+export interface ResearchAgentOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ResearchProgress) => void;
+  onChunk?: (text: string) => void;
+}
+
+export interface ResearchResult {
+  text: string;
+  sources: SearchSource[];
+  steps: ResearchStep[];
+}
+
+// Thrown when the run's signal is aborted; carries how far the run got
+export class ResearchCancelledError extends Error {
+  constructor(public progress: ResearchProgress, public partialText: string) {
+    super('Research cancelled');
+    this.name = 'ResearchCancelledError';
+  }
+}
+
+// Grounding URIs differ only in trailing slashes or fragments for the same page
+const sourceKey = (uri: string) => uri.replace(/#.*$/, '').replace(/\/+$/, '');
+
+export const mergeSources = (sourceLists: SearchSource[][]) => {
+  const merged: SearchSource[] = [];
+  const numbers = sourceLists.map(list => [...new Set(list.map(source => {
+    let index = merged.findIndex(s => sourceKey(s.uri) === sourceKey(source.uri));
+    if (index < 0) index = merged.push(source) - 1;
+    return index + 1;
+  }))]);
+  return { merged, numbers };
+};
+
+export const runResearchAgent = async (
+  question: string,
+  client: ResearchModelClient,
+  { signal = new AbortController().signal, onProgress, onChunk }: ResearchAgentOptions = {}
+): Promise<ResearchResult> => {
+  let progress: ResearchProgress = { phase: 'planning', steps: [] };
+  let text = '';
+
+  const update = (next: Partial<ResearchProgress>) => {
+    progress = { ...progress, ...next };
+    onProgress?.(progress);
+  };
+  const updateStep = (index: number, patch: Partial<ResearchStep>) =>
+    update({ steps: progress.steps.map((step, i) => i === index ? { ...step, ...patch } : step) });
+
+  const cancelled = () => {
+    update({ phase: 'cancelled' });
+    return new ResearchCancelledError(progress, text);
+  };
+  // Any failure after the signal fired (usually an aborted fetch) is a cancellation
+  const guard = async <T>(work: () => Promise<T>): Promise<T> => {
+    if (signal.aborted) throw cancelled();
+    try {
+      return await work();
+    } catch (error) {
+      if (signal.aborted) throw cancelled();
+      throw error;
+    }
+  };
+
+  const run = async (): Promise<ResearchResult> => {
+    const subQuestions = await guard(() => client.plan(question, signal));
+    update({ phase: 'researching', steps: subQuestions.map(q => ({ question: q, status: 'pending' })) });
+
+    const findings = await guard(() => Promise.all(subQuestions.map(async (subQuestion, i) => {
+      updateStep(i, { status: 'running' });
+      try {
+        const result = await client.research(subQuestion, signal);
+        updateStep(i, { status: 'done', findings: result.text, sourceCount: result.sources.length });
+        return result;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        console.warn(`Research step failed (${subQuestion}):`, error);
+        updateStep(i, { status: 'failed' });
+        return { text: '', sources: [] };
+      }
+    })));
+
+    if (findings.every(f => !f.text.trim())) {
+      throw new Error("None of the research steps returned results.");
+    }
+
+    const { merged, numbers } = mergeSources(findings.map(f => f.sources));
+    const notes = findings
+      .map((f, i) => f.text.trim() && `### ${subQuestions[i]}\n${f.text.trim()}\nSources: ${numbers[i].map(n => `[${n}]`).join(' ') || 'none'}`)
+      .filter(Boolean)
+      .join('\n\n');
+
+    update({ phase: 'writing' });
+    await guard(() => client.report(question, notes, merged, (chunk) => {
+      text += chunk;
+      onChunk?.(chunk);
+    }, signal));
+
+    update({ phase: 'done' });
+    return { text, sources: merged, steps: progress.steps };
+  };
+
+  update({});
+  try {
+    return await run();
+  } catch (error) {
+    if (!(error instanceof ResearchCancelledError)) update({ phase: 'failed' });
+    throw error;
+  }
+};
@@ -0,0 +1,40 @@
+// Retries a failed request with exponential backoff and full jitter: the wait before retry n is
+// a random time up to baseDelayMs * 2^n (capped), so clients that failed together don't all
+// come back at the same moment.
+export interface RetryOptions {
+  retries?: number; // Attempts after the first
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal; // Stops waiting; the last error is rethrown
+  shouldRetry: (error: unknown) => boolean;
+}
+
+export const backoffDelay = (retry: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** retry);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+
+export const withRetry = async <T>(
+  attempt: () => Promise<T>,
+  { retries = 2, baseDelayMs = 500, maxDelayMs = 4000, signal, shouldRetry }: RetryOptions
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (retry >= retries || signal?.aborted || !shouldRetry(error)) throw error;
+      console.warn(`Retrying after a failed request (${retry + 1}/${retries}):`, error);
+      await wait(backoffDelay(retry, baseDelayMs, maxDelayMs), signal);
+      if (signal?.aborted) throw error;
+    }
+  }
+};
@@ -0,0 +1,57 @@
+import { supabase } from "./supabaseClient";
+import { ChatMessage, SharedThread, ThreadShare } from "../types";
+
+// Public links to a thread. share_thread() copies the given turns into a shared_threads
+// snapshot; anyone with the link reads it through get_shared_thread(), without signing in.
+// The thread's messages themselves stay private.
+
+const SHARE_HASH = /^#\/share\/([a-z0-9]+)$/i;
+
+export const shareLink = (slug: string) =>
+  `${window.location.origin}${window.location.pathname}#/share/${slug}`;
+
+// The slug of a shared link being opened, from location.hash
+export const sharedSlugFromHash = (hash: string) => hash.match(SHARE_HASH)?.[1] || null;
+
+// Snapshot the stored turns `messageIds` (the branch being shown) and return the new link's slug
+export const shareThread = async (sessionId: string, messageIds: string[]): Promise<string> => {
+  const { data, error } = await supabase.rpc('share_thread', { p_session_id: sessionId, p_message_ids: messageIds });
+  if (error) throw error;
+  return data as string;
+};
+
+// The signed-in user's links to a thread, newest first
+export const fetchThreadShares = async (sessionId: string): Promise<ThreadShare[]> => {
+  const { data, error } = await supabase
+    .from('shared_threads')
+    .select('slug, created_at')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map((s: any) => ({ slug: s.slug, createdAt: new Date(s.created_at).toLocaleDateString() }));
+};
+
+export const revokeShare = async (slug: string) => {
+  const { error } = await supabase.from('shared_threads').delete().eq('slug', slug);
+  if (error) throw error;
+};
+
+// null when the link doesn't exist or was revoked
+export const fetchSharedThread = async (slug: string): Promise<SharedThread | null> => {
+  const { data, error } = await supabase.rpc('get_shared_thread', { p_slug: slug });
+  if (error) throw error;
+  if (!data) return null;
+
+  const messages: ChatMessage[] = (data.messages || []).map((m: any, i: number) => ({
+    id: `${slug}-${i}`,
+    parentId: i > 0 ? `${slug}-${i - 1}` : null,
+    role: m.role === 'model' ? 'model' : 'user',
+    content: m.content,
+    sources: m.role === 'model' ? (m.sources || []) : undefined,
+    segments: m.grounding?.segments,
+    searchQueries: m.grounding?.searchQueries,
+    ungroundedReason: m.ungroundedReason || undefined,
+    mode: m.mode
+  }));
+  return { title: data.title, messages, createdAt: new Date(data.createdAt).toLocaleDateString() };
+};
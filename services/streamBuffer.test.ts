@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createStreamBuffer } from './streamBuffer';
+
+// A fake requestAnimationFrame: callbacks wait until the test paints a frame
+let frames: Map<number, FrameRequestCallback>;
+let nextFrameId: number;
+
+const paint = () => {
+  const due = [...frames.values()];
+  frames.clear();
+  due.forEach(callback => callback(performance.now()));
+};
+
+beforeEach(() => {
+  frames = new Map();
+  nextFrameId = 1;
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    frames.set(nextFrameId, callback);
+    return nextFrameId++;
+  });
+  vi.stubGlobal('cancelAnimationFrame', (id: number) => frames.delete(id));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createStreamBuffer', () => {
+  it('delivers 10k chunks in at most one update per frame', () => {
+    const CHUNKS = 10_000;
+    const CHUNKS_PER_FRAME = 25;
+    const onFlush = vi.fn();
+    const buffer = createStreamBuffer(onFlush);
+
+    let expected = '';
+    let painted = 0;
+    for (let i = 0; i < CHUNKS; i++) {
+      const chunk = `chunk ${i} `;
+      expected += chunk;
+      buffer.push(chunk);
+      if ((i + 1) % CHUNKS_PER_FRAME === 0) {
+        paint();
+        painted++;
+      }
+    }
+    buffer.flush();
+
+    expect(painted).toBe(CHUNKS / CHUNKS_PER_FRAME);
+    expect(onFlush.mock.calls.length).toBeLessThanOrEqual(painted + 1);
+    expect(onFlush).toHaveBeenLastCalledWith(expected);
+  });
+
+  it('keeps a single frame scheduled however many chunks arrive before it', () => {
+    const onFlush = vi.fn();
+    const buffer = createStreamBuffer(onFlush);
+
+    for (let i = 0; i < 10_000; i++) buffer.push('x');
+    expect(frames.size).toBe(1);
+    expect(onFlush).not.toHaveBeenCalled();
+
+    paint();
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith('x'.repeat(10_000));
+  });
+
+  it('does not repeat a delivery when nothing new arrived', () => {
+    const onFlush = vi.fn();
+    const buffer = createStreamBuffer(onFlush);
+
+    buffer.push('done');
+    paint();
+    buffer.flush();
+    paint();
+    expect(onFlush).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the scheduled frame on cancel', () => {
+    const onFlush = vi.fn();
+    const buffer = createStreamBuffer(onFlush);
+
+    buffer.push('stopped');
+    buffer.cancel();
+    paint();
+    expect(frames.size).toBe(0);
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
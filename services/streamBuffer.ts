@@ -0,0 +1,45 @@
+// Collects streamed answer text and hands it on at most once per animation frame. Rendering
+// the growing markdown for every chunk makes long answers stutter, and several chunks often
+// arrive within one frame.
+export interface StreamBuffer {
+  push: (chunk: string) => void;
+  flush: () => void; // Deliver pending text now, e.g. before the final update
+  cancel: () => void; // Drop a scheduled delivery
+}
+
+const scheduleFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  // Background tabs and non-browser runtimes
+  const id = setTimeout(callback, 16);
+  return () => clearTimeout(id);
+};
+
+// `onFlush` receives the full text so far, not the delta
+export const createStreamBuffer = (onFlush: (text: string) => void): StreamBuffer => {
+  let text = '';
+  let delivered = '';
+  let cancelFrame: (() => void) | null = null;
+
+  const flush = () => {
+    cancelFrame?.();
+    cancelFrame = null;
+    if (text === delivered) return;
+    delivered = text;
+    onFlush(text);
+  };
+
+  return {
+    push: (chunk) => {
+      text += chunk;
+      if (!cancelFrame) cancelFrame = scheduleFrame(flush);
+    },
+    flush,
+    cancel: () => {
+      cancelFrame?.();
+      cancelFrame = null;
+    }
+  };
+};
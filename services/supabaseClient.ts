@@ -1,7 +1,26 @@
 import { createClient } from '@supabase/supabase-js';
 
-// Credentials provided by the user
-const supabaseUrl = 'https://dsrvebvjqslshyaoinlt.supabase.co';
-const supabaseKey = 'sb_publishable_-T27UVP1yO66pHswqID5gA_bCe0UPtf'; 
+// Credentials provided by the user. VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY point the app at
+// another project instead, e.g. a local stack serving the functions with the mock model provider.
+export const supabaseUrl = import.meta.env.VITE_SUPABASE_URL || 'https://dsrvebvjqslshyaoinlt.supabase.co';
+export const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY || 'sb_publishable_-T27UVP1yO66pHswqID5gA_bCe0UPtf';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
\ No newline at end of file
+// Signed StreekX session token (see authService). Row Level Security policies check its
+// `sub` claim through session_uid(), so every request made while signed in must carry it.
+let sessionToken: string | null = null;
+
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  global: {
+    fetch: (input, init) => {
+      const headers = new Headers(init?.headers);
+      if (sessionToken) headers.set('Authorization', `Bearer ${sessionToken}`);
+      return fetch(input, { ...init, headers });
+    }
+  }
+});
+
+export const setSessionToken = (token: string | null) => {
+  if (token === sessionToken) return;
+  sessionToken = token;
+  supabase.realtime.setAuth(token || supabaseKey);
+};
@@ -0,0 +1,99 @@
+import { supabase, supabaseUrl, supabaseKey } from "./supabaseClient";
+import { getSession } from "./authService";
+import { ChatMessage } from "../types";
+import { chainLegacyMessages } from "./threadTree";
+import { withRetry } from "./retry";
+
+const SUMMARIZE_ENDPOINT = `${supabaseUrl}/functions/v1/summarize`;
+
+// Loads the stored turns of a thread (messages rows sharing a session_id), oldest first, with
+// rows from before threads branched linked up (see chainLegacyMessages). Build the version
+// tree from them with threadFromMessages (threadTree.ts).
+export const fetchThreadMessages = async (userId: string, sessionId: string): Promise<ChatMessage[]> => {
+  const { data: rows, error } = await supabase
+    .from('messages')
+    .select('id, parent_id, content, role, sources, grounding, ungrounded_reason, mode, follow_ups, created_at')
+    .eq('user_id', userId)
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return chainLegacyMessages((rows || []).map((r: any) => ({
+    id: r.id,
+    parentId: r.parent_id,
+    role: r.role === 'model' ? 'model' : 'user',
+    content: r.content,
+    sources: r.role === 'model' ? (r.sources || []) : undefined,
+    segments: r.grounding?.segments,
+    searchQueries: r.grounding?.searchQueries,
+    ungroundedReason: r.ungrounded_reason || undefined,
+    mode: r.mode,
+    followUps: r.follow_ups || undefined
+  })));
+};
+
+// Store the turns of an imported thread (see exportService) under a new session id.
+// created_at keeps them in file order, so the newest version of each turn stays the one shown.
+export const saveThreadMessages = async (userId: string, sessionId: string, messages: ChatMessage[]) => {
+  const start = Date.now() - messages.length;
+  const { error } = await supabase.from('messages').insert(messages.map((m, i) => ({
+    id: m.id,
+    parent_id: m.parentId,
+    user_id: userId,
+    session_id: sessionId,
+    role: m.role,
+    content: m.content,
+    sources: m.role === 'model' ? (m.sources || []) : [],
+    grounding: m.role === 'model' ? { segments: m.segments || [], searchQueries: m.searchQueries || [] } : null,
+    ungrounded_reason: m.ungroundedReason || null,
+    mode: m.mode || 'quick',
+    created_at: new Date(start + i).toISOString()
+  })));
+  if (error) throw error;
+};
+
+// Follow-up suggestions arrive after the answer was stored (see suggestFollowUps)
+export const saveFollowUps = async (answerId: string, followUps: string[]) => {
+  const { error } = await supabase.from('messages').update({ follow_ups: followUps }).eq('id', answerId);
+  if (error) throw error;
+};
+
+class SummarizeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+// Have the 'summarize' edge function title the thread once its first answer is stored, paid
+// for by that answer's summaryToken. Threads are only summarized once, so calling this again
+// just returns the stored title. The token covers a few attempts, so failed model calls (5xx)
+// are retried.
+export const summarizeThread = (sessionId: string, summaryToken: string): Promise<{ title: string; summary: string | null }> =>
+  withRetry(async () => {
+    const response = await fetch(SUMMARIZE_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseKey,
+        'Authorization': `Bearer ${getSession()?.token || supabaseKey}`
+      },
+      body: JSON.stringify({ sessionId, summaryToken })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) throw new SummarizeError(data.error || `Summarize failed (${response.status})`, response.status);
+    return data;
+  }, {
+    shouldRetry: (error) => !(error instanceof SummarizeError) || error.status >= 500
+  });
+
+// A renamed title is kept when the thread is summarized later
+export const renameThread = async (userId: string, sessionId: string, title: string) => {
+  const { error } = await supabase.from('threads').upsert([{
+    user_id: userId,
+    session_id: sessionId,
+    title,
+    renamed: true
+  }], { onConflict: 'user_id,session_id' });
+  if (error) throw error;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { activePath, chainLegacyMessages, threadFromMessages } from './threadTree';
+import { ChatMessage } from '../types';
+
+const turn = (id: string, role: ChatMessage['role'], parentId: string | null = null): ChatMessage =>
+  ({ id, parentId, role, content: id });
+
+const parents = (messages: ChatMessage[]) => chainLegacyMessages(messages).map(m => m.parentId);
+
+describe('chainLegacyMessages', () => {
+  it('chains a thread saved before threads branched in order', () => {
+    expect(parents([turn('q1', 'user'), turn('a1', 'model'), turn('q2', 'user'), turn('a2', 'model')]))
+      .toEqual([null, 'q1', 'a1', 'q2']);
+  });
+
+  it('chains the legacy rows of a thread continued after threads branched', () => {
+    const messages = [
+      turn('q1', 'user'), turn('a1', 'model'), turn('q2', 'user'), turn('a2', 'model'),
+      turn('q3', 'user', 'a2'), turn('a3', 'model', 'q3')
+    ];
+    expect(parents(messages)).toEqual([null, 'q1', 'a1', 'q2', 'a2', 'q3']);
+    expect(activePath(threadFromMessages(chainLegacyMessages(messages))).map(m => m.id))
+      .toEqual(['q1', 'a1', 'q2', 'a2', 'q3', 'a3']);
+  });
+
+  it('leaves a branched thread alone, including new versions of its first question', () => {
+    const messages = [
+      turn('q1', 'user'), turn('a1', 'model', 'q1'),
+      turn('q1b', 'user'), turn('a1b', 'model', 'q1b')
+    ];
+    expect(chainLegacyMessages(messages)).toEqual(messages);
+  });
+
+  it('keeps a first question asked again after its answer failed as a version of it', () => {
+    expect(parents([turn('q1', 'user'), turn('q1b', 'user'), turn('a1b', 'model', 'q1b')]))
+      .toEqual([null, null, 'q1b']);
+  });
+});
@@ -0,0 +1,76 @@
+import { ChatMessage } from "../types";
+
+// A thread is a tree of turns: every message points at the turn it follows (`parentId`), and
+// regenerating or editing a user turn adds a sibling under the same parent. What's shown is
+// the path from the first question that follows the selected child at each fork, which is
+// the newest child unless the user switched to another version.
+export interface ThreadTree {
+  nodes: Record<string, ChatMessage>;
+  children: Record<string, string[]>; // Parent id ('' for the first question) -> child ids, oldest first
+  selected: Record<string, string>; // Parent id -> the child shown
+}
+
+const ROOT = '';
+const parentKey = (message: ChatMessage) => message.parentId || ROOT;
+
+export const newMessageId = () => crypto.randomUUID();
+
+export const emptyThread = (): ThreadTree => ({ nodes: {}, children: {}, selected: {} });
+
+// Add a message and show it, so the branch it starts (or continues) becomes the visible one
+export const addMessage = (tree: ThreadTree, message: ChatMessage): ThreadTree => {
+  const key = parentKey(message);
+  return {
+    nodes: { ...tree.nodes, [message.id]: message },
+    children: { ...tree.children, [key]: [...(tree.children[key] || []), message.id] },
+    selected: { ...tree.selected, [key]: message.id }
+  };
+};
+
+export const updateMessage = (tree: ThreadTree, id: string, patch: Partial<ChatMessage>): ThreadTree => {
+  const message = tree.nodes[id];
+  if (!message) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [id]: { ...message, ...patch } } };
+};
+
+// Rows saved before threads branched have no parent; they follow each other in order. A thread
+// continued since then has parented rows after them, so only the parentless rows older than
+// the first parented one are chained, each to the row before it. Two questions in a row are
+// versions of the first question (its first answer wasn't saved), so they stay siblings.
+export const chainLegacyMessages = (messages: ChatMessage[]): ChatMessage[] => {
+  const firstParented = messages.findIndex(m => m.parentId);
+  const legacyEnd = firstParented < 0 ? messages.length : firstParented;
+  return messages.map((message, i) => {
+    const previous = messages[i - 1];
+    if (message.parentId || i >= legacyEnd || !previous || (previous.role === 'user' && message.role === 'user')) {
+      return message;
+    }
+    return { ...message, parentId: previous.id };
+  });
+};
+
+// Stored rows arrive oldest first, so the newest branch ends up selected at every fork
+export const threadFromMessages = (messages: ChatMessage[]): ThreadTree =>
+  messages.reduce(addMessage, emptyThread());
+
+export const activePath = (tree: ThreadTree): ChatMessage[] => {
+  const path: ChatMessage[] = [];
+  let id = tree.selected[ROOT];
+  while (id && tree.nodes[id]) {
+    path.push(tree.nodes[id]);
+    id = tree.selected[id];
+  }
+  return path;
+};
+
+// Where a message sits among the versions of its turn, for the "2/3" arrows
+export const siblingsOf = (tree: ThreadTree, message: ChatMessage) => {
+  const ids = tree.children[parentKey(message)] || [message.id];
+  return { ids, index: ids.indexOf(message.id) };
+};
+
+export const selectMessage = (tree: ThreadTree, id: string): ThreadTree => {
+  const message = tree.nodes[id];
+  if (!message) return tree;
+  return { ...tree, selected: { ...tree.selected, [parentKey(message)]: id } };
+};
@@ -0,0 +1,167 @@
+import { supabase } from "./supabaseClient";
+import { SearchSource, WorkspaceContents } from "../types";
+import { WorkspaceExport, importedMessages } from "./exportService";
+import { saveThreadMessages } from "./threadService";
+
+// Reads and writes for the workspace_* join tables. Every row carries user_id so the
+// RLS ownership policies apply; callers pass the signed-in user's id.
+
+export const fetchWorkspaceContents = async (workspaceId: string): Promise<WorkspaceContents> => {
+  const [threads, sources, notes] = await Promise.all([
+    supabase.from('workspace_threads').select('session_id, title, created_at').eq('workspace_id', workspaceId).order('created_at', { ascending: false }),
+    supabase.from('workspace_sources').select('id, title, uri, session_id').eq('workspace_id', workspaceId).order('created_at', { ascending: false }),
+    supabase.from('workspace_notes').select('id, content, updated_at').eq('workspace_id', workspaceId).order('updated_at', { ascending: false })
+  ]);
+
+  const error = threads.error || sources.error || notes.error;
+  if (error) throw error;
+
+  // Generated or renamed titles (see the threads table) replace the one saved with the thread
+  const sessionIds = (threads.data || []).map((t: any) => t.session_id);
+  const { data: titles, error: titleError } = sessionIds.length > 0
+    ? await supabase.from('threads').select('session_id, title, summary').in('session_id', sessionIds)
+    : { data: [], error: null };
+  if (titleError) throw titleError;
+  const titleOf = new Map((titles || []).map((t: any) => [t.session_id, t]));
+
+  return {
+    threads: (threads.data || []).map((t: any) => ({
+      sessionId: t.session_id,
+      title: titleOf.get(t.session_id)?.title || t.title,
+      summary: titleOf.get(t.session_id)?.summary || undefined,
+      addedAt: new Date(t.created_at).toLocaleDateString()
+    })),
+    sources: (sources.data || []).map((s: any) => ({
+      id: s.id,
+      title: s.title,
+      uri: s.uri,
+      sessionId: s.session_id
+    })),
+    notes: (notes.data || []).map((n: any) => ({
+      id: n.id,
+      content: n.content,
+      updatedAt: new Date(n.updated_at).toLocaleDateString()
+    }))
+  };
+};
+
+const touchWorkspace = (workspaceId: string) =>
+  supabase.from('workspaces').update({ last_modified: new Date().toISOString() }).eq('id', workspaceId);
+
+// Save a thread into a workspace and pin the sources of the answer it was saved from
+export const addAnswerToWorkspace = async (
+  userId: string,
+  workspaceId: string,
+  sessionId: string,
+  title: string,
+  sources: SearchSource[] = []
+) => {
+  const { error: threadError } = await supabase.from('workspace_threads').upsert([{
+    workspace_id: workspaceId,
+    user_id: userId,
+    session_id: sessionId,
+    title
+  }], { onConflict: 'workspace_id,session_id', ignoreDuplicates: true });
+  if (threadError) throw threadError;
+
+  if (sources.length > 0) {
+    const { error: sourceError } = await supabase.from('workspace_sources').upsert(sources.map(source => ({
+      workspace_id: workspaceId,
+      user_id: userId,
+      title: source.title,
+      uri: source.uri,
+      session_id: sessionId
+    })), { onConflict: 'workspace_id,uri', ignoreDuplicates: true });
+    if (sourceError) throw sourceError;
+  }
+
+  await touchWorkspace(workspaceId);
+};
+
+export const removeWorkspaceThread = async (workspaceId: string, sessionId: string) => {
+  const { error } = await supabase.from('workspace_threads').delete().eq('workspace_id', workspaceId).eq('session_id', sessionId);
+  if (error) throw error;
+};
+
+// Save threads into a workspace, taking them out of any other workspace they were in
+export const moveThreadsToWorkspace = async (userId: string, workspaceId: string, threads: { sessionId: string; title: string }[]) => {
+  const { error: removeError } = await supabase.from('workspace_threads').delete()
+    .eq('user_id', userId)
+    .neq('workspace_id', workspaceId)
+    .in('session_id', threads.map(t => t.sessionId));
+  if (removeError) throw removeError;
+
+  const { error } = await supabase.from('workspace_threads').upsert(threads.map(t => ({
+    workspace_id: workspaceId,
+    user_id: userId,
+    session_id: t.sessionId,
+    title: t.title
+  })), { onConflict: 'workspace_id,session_id', ignoreDuplicates: true });
+  if (error) throw error;
+
+  await touchWorkspace(workspaceId);
+};
+
+export const removeWorkspaceSource = async (sourceId: string) => {
+  const { error } = await supabase.from('workspace_sources').delete().eq('id', sourceId);
+  if (error) throw error;
+};
+
+export const addWorkspaceNote = async (userId: string, workspaceId: string, content: string) => {
+  const { error } = await supabase.from('workspace_notes').insert([{ workspace_id: workspaceId, user_id: userId, content }]);
+  if (error) throw error;
+  await touchWorkspace(workspaceId);
+};
+
+export const updateWorkspaceNote = async (noteId: string, content: string) => {
+  const { error } = await supabase.from('workspace_notes').update({ content, updated_at: new Date().toISOString() }).eq('id', noteId);
+  if (error) throw error;
+};
+
+export const deleteWorkspaceNote = async (noteId: string) => {
+  const { error } = await supabase.from('workspace_notes').delete().eq('id', noteId);
+  if (error) throw error;
+};
+
+// Recreate an exported workspace (see exportService) as a new one, with its threads as new sessions
+export const importWorkspace = async (userId: string, data: WorkspaceExport) => {
+  const { data: workspace, error } = await supabase.from('workspaces').insert([{
+    user_id: userId,
+    name: data.workspace.name,
+    description: data.workspace.description || 'Research Collection',
+    instructions: data.workspace.instructions || '',
+    status: 'active'
+  }]).select('id').single();
+  if (error) throw error;
+
+  // Workspaces list their threads, sources and notes newest first, as files do, so the
+  // file's first one is stored last (or with the latest timestamp) to keep its place
+  for (const thread of [...data.threads].reverse()) {
+    const sessionId = crypto.randomUUID();
+    await saveThreadMessages(userId, sessionId, importedMessages(thread));
+    await addAnswerToWorkspace(userId, workspace.id, sessionId, thread.title);
+  }
+  const now = Date.now();
+  const newestFirst = (index: number) => new Date(now - index).toISOString();
+  if (data.sources.length > 0) {
+    const { error: sourceError } = await supabase.from('workspace_sources').upsert(data.sources.map((source, i) => ({
+      workspace_id: workspace.id,
+      user_id: userId,
+      title: source.title,
+      uri: source.uri,
+      created_at: newestFirst(i)
+    })), { onConflict: 'workspace_id,uri', ignoreDuplicates: true });
+    if (sourceError) throw sourceError;
+  }
+  if (data.notes.length > 0) {
+    const { error: noteError } = await supabase.from('workspace_notes').insert(data.notes.map((content, i) => ({
+      workspace_id: workspace.id,
+      user_id: userId,
+      content,
+      created_at: newestFirst(i),
+      updated_at: newestFirst(i)
+    })));
+    if (noteError) throw noteError;
+  }
+  return workspace.id as string;
+};
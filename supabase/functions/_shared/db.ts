@@ -0,0 +1,39 @@
+// @ts-ignore
+declare const Deno: any;
+
+// Minimal PostgREST client using the service role key.
+// We use the REST API directly to avoid package dependencies in Deno.
+// Only edge functions hold this key; it bypasses RLS, so every query must filter by user.
+
+export class DbError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+  }
+}
+
+export const db = async <T = any>(path: string, init: RequestInit & { prefer?: string } = {}): Promise<T> => {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) {
+    throw new Error("Server Misconfiguration: SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing");
+  }
+
+  const { prefer, ...rest } = init;
+  const response = await fetch(`${url}/rest/v1/${path}`, {
+    ...rest,
+    headers: {
+      'apikey': key,
+      'Authorization': `Bearer ${key}`,
+      'Content-Type': 'application/json',
+      ...(prefer ? { 'Prefer': prefer } : {}),
+      ...(rest.headers || {})
+    }
+  });
+
+  const text = await response.text();
+  const data = text ? JSON.parse(text) : null;
+  if (!response.ok) {
+    throw new DbError(data?.message || `Database request failed (${response.status})`, response.status, data?.code);
+  }
+  return data as T;
+};
@@ -0,0 +1,113 @@
+// @ts-ignore
+declare const Deno: any;
+
+import { db } from "./db.ts";
+
+// StreekX session tokens are HS256 JWTs signed with the project's JWT secret, so the same
+// token identifies the user to edge functions and (via session_uid()) to Postgres RLS.
+// Tokens issued before the user's last password change are refused by both.
+
+export interface SessionClaims {
+  sub: string; // users.id
+  streekx_id: string;
+  role: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export const SESSION_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+const encoder = new TextEncoder();
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const getKey = () => {
+  const secret = Deno.env.get('JWT_SECRET');
+  if (!secret) {
+    throw new Error("Server Misconfiguration: JWT_SECRET is missing");
+  }
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+export const signJwt = async (claims: Record<string, unknown>): Promise<string> => {
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(`${header}.${payload}`));
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+};
+
+// Returns the claims of a valid, unexpired token, or null
+export const verifyJwt = async <T = SessionClaims>(token: string): Promise<T | null> => {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), encoder.encode(`${header}.${payload}`));
+  if (!valid) return null;
+
+  const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload)));
+  if (typeof claims.exp !== 'number' || claims.exp < Math.floor(Date.now() / 1000)) return null;
+  return claims as T;
+};
+
+export const issueSessionToken = (user: { id: string; streekx_id: string }) => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({
+    sub: user.id,
+    streekx_id: user.streekx_id,
+    role: 'authenticated',
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS
+  });
+};
+
+// Short-lived proof that the password step of a two-factor login succeeded. Its role is not
+// 'authenticated', so it is rejected by getSession() and cannot be used against the database.
+export const MFA_CHALLENGE_TTL_SECONDS = 60 * 5;
+
+export const issueMfaChallengeToken = (user: { id: string; streekx_id: string }) => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({
+    sub: user.id,
+    streekx_id: user.streekx_id,
+    role: 'mfa_challenge',
+    iat: now,
+    exp: now + MFA_CHALLENGE_TTL_SECONDS
+  });
+};
+
+export const verifyMfaChallengeToken = async (token: unknown): Promise<SessionClaims | null> => {
+  if (typeof token !== 'string') return null;
+  try {
+    const claims = await verifyJwt(token);
+    return claims && claims.role === 'mfa_challenge' ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Whether the token was issued since the user's last password change (and the user still exists)
+const isCurrentSession = async (claims: SessionClaims) => {
+  const [user] = await db<{ password_changed_at: string | null }[]>(`users?select=password_changed_at&id=eq.${claims.sub}`);
+  if (!user) return false;
+  return !user.password_changed_at || claims.iat >= Math.floor(new Date(user.password_changed_at).getTime() / 1000);
+};
+
+// Resolve the signed-in user from an `Authorization: Bearer <session token>` header.
+// Requests made with the bare anon key (guests) or a revoked token resolve to null.
+export const getSession = async (req: Request): Promise<SessionClaims | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  let claims: SessionClaims | null;
+  try {
+    claims = await verifyJwt(token);
+  } catch {
+    return null;
+  }
+  if (!claims || claims.role !== 'authenticated') return null;
+  return (await isCurrentSession(claims)) ? claims : null;
+};
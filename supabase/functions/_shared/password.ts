@@ -0,0 +1,55 @@
+import { scrypt, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Stored format: scrypt$<N>$<r>$<p>$<salt b64>$<hash b64>
+// Keeping the cost parameters in the hash lets us raise them later without breaking old rows.
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer, N: number, r: number, p: number, keyLength: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password.normalize('NFKC'), salt, keyLength, { N, r, p, maxmem: 64 * 1024 * 1024 }, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const hash = await derive(password, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P, KEY_LENGTH);
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+// Hashes written by the old client: unsalted SHA-256, hex encoded
+const isLegacyHash = (stored: string) => /^[0-9a-f]{64}$/.test(stored);
+
+const sha256Hex = async (password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+  return Buffer.from(digest).toString('hex');
+};
+
+export interface PasswordCheck {
+  valid: boolean;
+  needsRehash: boolean; // True when the stored hash should be replaced with a fresh scrypt hash
+}
+
+export const verifyPassword = async (password: string, stored: string): Promise<PasswordCheck> => {
+  if (isLegacyHash(stored)) {
+    const candidate = Buffer.from(await sha256Hex(password), 'hex');
+    const valid = timingSafeEqual(candidate, Buffer.from(stored, 'hex'));
+    return { valid, needsRehash: valid };
+  }
+
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const candidate = await derive(password, Buffer.from(salt, 'base64'), Number(N), Number(r), Number(p), expected.length);
+  const valid = timingSafeEqual(candidate, expected);
+  return {
+    valid,
+    needsRehash: valid && (Number(N) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P)
+  };
+};
@@ -0,0 +1,45 @@
+import { SearchSource } from "./types.ts";
+
+// Recorded answers replayed by the mock provider. A fixture is used when the user's message
+// contains `match` (case-insensitive); the first match wins. Add fixtures here to give UI work
+// and integration tests stable, realistic answers.
+export interface AnswerFixture {
+  match: string;
+  text: string;
+  sources: SearchSource[];
+  searchQueries: string[];
+}
+
+export const ANSWER_FIXTURES: AnswerFixture[] = [
+  {
+    match: 'speed of light',
+    text: `The speed of light in a vacuum is exactly **299,792,458 metres per second** [1].
+
+Since 1983 the metre has been defined from this value, so it is fixed by definition rather than measured [2]. In everyday terms that is about 300,000 km per second, or roughly 7.5 trips around the Earth every second [1].`,
+    sources: [
+      { title: 'Speed of light - Wikipedia', uri: 'https://en.wikipedia.org/wiki/Speed_of_light' },
+      { title: 'SI base unit: metre - BIPM', uri: 'https://www.bipm.org/en/si-base-units/metre' }
+    ],
+    searchQueries: ['speed of light in vacuum', 'metre definition speed of light']
+  },
+  {
+    match: 'typescript satisfies',
+    text: `The \`satisfies\` operator checks that an expression matches a type **without changing the inferred type** [1].
+
+\`\`\`ts
+const palette = {
+  red: [255, 0, 0],
+  green: '#00ff00'
+} satisfies Record<string, string | number[]>;
+
+palette.green.toUpperCase(); // still known to be a string
+\`\`\`
+
+It was added in TypeScript 4.9 [2]. Use it instead of a type annotation when you want validation but also want to keep the narrower literal types [1].`,
+    sources: [
+      { title: 'TypeScript 4.9 release notes', uri: 'https://www.typescriptlang.org/docs/handbook/release-notes/typescript-4-9.html' },
+      { title: 'Announcing TypeScript 4.9 - TypeScript blog', uri: 'https://devblogs.microsoft.com/typescript/announcing-typescript-4-9/' }
+    ],
+    searchQueries: ['typescript satisfies operator']
+  }
+];
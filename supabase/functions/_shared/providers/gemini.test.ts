@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider } from './gemini.ts';
+import { GenerateRequest, ProviderError } from './types.ts';
+
+const request = (search: boolean): GenerateRequest => ({
+  tier: 'fast',
+  system: 'Answer briefly.',
+  turns: [{ role: 'user', content: 'What happened today?' }],
+  search,
+  safeSearch: true
+});
+
+// Gemini's error body: { error: { code, message, status, details } }
+const respondWith = (status: number, error: Record<string, unknown>) => {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ error: { code: status, ...error } }), { status })));
+};
+
+const failureOf = (search: boolean) =>
+  createGeminiProvider('test-key').stream(request(search)).then(
+    () => { throw new Error('Expected the call to fail'); },
+    (error: ProviderError) => ({ kind: error.kind, status: error.status })
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('Gemini error classification', () => {
+  it.each([
+    [429, { status: 'RESOURCE_EXHAUSTED', message: 'Resource has been exhausted (e.g. check quota).' }, 'quota'],
+    [401, { status: 'UNAUTHENTICATED', message: 'Request had invalid authentication credentials.' }, 'auth'],
+    [403, { status: 'PERMISSION_DENIED', message: 'Method doesn\'t allow unregistered callers.' }, 'auth'],
+    [400, { status: 'INVALID_ARGUMENT', message: 'API key not valid. Please pass a valid API key.', details: [{ reason: 'API_KEY_INVALID' }] }, 'auth'],
+    [400, { status: 'INVALID_ARGUMENT', message: 'Search Grounding is not supported for this model.' }, 'search_unavailable'],
+    [403, { status: 'PERMISSION_DENIED', message: 'google_search tool is not enabled for this project.' }, 'search_unavailable'],
+    [500, { status: 'INTERNAL', message: 'An internal error has occurred.' }, 'upstream'],
+    [503, { status: 'UNAVAILABLE', message: 'The model is overloaded.' }, 'upstream']
+  ])('maps %i %o on a search request to %s', async (status, error, kind) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    respondWith(status, error);
+    expect(await failureOf(true)).toEqual({ kind, status });
+  });
+
+  it('never reports a tool error for a request without search', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    respondWith(400, { status: 'INVALID_ARGUMENT', message: 'Search Grounding is not supported for this model.' });
+    expect(await failureOf(false)).toEqual({ kind: 'upstream', status: 400 });
+  });
+});
@@ -0,0 +1,207 @@
+import { GenerateRequest, GroundingSupport, LlmProvider, ModelTier, ProviderError, ProviderErrorKind, ProviderEvent, SearchSource } from "./types.ts";
+
+// Gemini API over REST. The key only lives in the function's secrets.
+
+const MODELS: Record<ModelTier, string> = {
+  fast: 'gemini-3-flash-preview',
+  pro: 'gemini-3-pro-preview'
+};
+
+// How long to wait for Gemini to start answering; a streamed answer may take longer to finish
+const RESPONSE_TIMEOUT_MS = 45000;
+
+// Finish reasons that mean the answer was cut off by a content filter
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const HARM_CATEGORIES = [
+  'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+  'HARM_CATEGORY_HATE_SPEECH',
+  'HARM_CATEGORY_HARASSMENT',
+  'HARM_CATEGORY_DANGEROUS_CONTENT'
+];
+
+const toPayload = (request: GenerateRequest) => ({
+  contents: request.turns.map((turn) => ({
+    role: turn.role === 'model' ? 'model' : 'user',
+    parts: [{ text: turn.content }]
+  })),
+  system_instruction: { parts: [{ text: request.system }] },
+  ...(request.search ? { tools: [{ google_search: {} }] } : {}),
+  // Safe search tightens Gemini's blocking thresholds
+  safety_settings: HARM_CATEGORIES.map((category) => ({
+    category,
+    threshold: request.safeSearch ? 'BLOCK_LOW_AND_ABOVE' : 'BLOCK_ONLY_HIGH'
+  })),
+  generation_config: {
+    ...(request.responseSchema ? { response_mime_type: 'application/json', response_schema: request.responseSchema } : {}),
+    // Thinking tokens count towards the cap, so keep thinking short as well
+    ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens, thinking_config: { thinking_level: 'low' } } : {})
+  }
+});
+
+// Answer text of a response chunk, without the model's thoughts
+const candidateText = (candidate: any): string =>
+  (candidate?.content?.parts || [])
+    .filter((p: any) => !p.thought)
+    .map((p: any) => p.text || '')
+    .join('');
+
+// Gemini reports a blocked prompt in promptFeedback and a blocked answer as the finish reason
+const checkBlocked = (data: any) => {
+  const finishReason = data.candidates?.[0]?.finishReason;
+  const reason = data.promptFeedback?.blockReason || (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : null);
+  if (reason) {
+    throw new ProviderError(`The answer was blocked by Gemini's safety filters (${reason}).`, 400, 'safety_blocked');
+  }
+};
+
+// Errors about the google_search tool itself, which the request can do without
+const SEARCH_TOOL_ERROR = /google_?search|grounding|\btools?\b/i;
+
+// What a non-OK Gemini response means for the caller. Only a rejected search tool is worth
+// asking again without search; an exhausted or invalid key fails the same way without it.
+const errorKind = (request: GenerateRequest, status: number, error: any): ProviderErrorKind => {
+  const reasons: string[] = (error?.details || []).map((d: any) => d.reason).filter(Boolean);
+  if (status === 429 || error?.status === 'RESOURCE_EXHAUSTED') return 'quota';
+  if (status === 401 || reasons.includes('API_KEY_INVALID')) return 'auth';
+  if (request.search && (status === 400 || status === 403) && SEARCH_TOOL_ERROR.test(error?.message || '')) return 'search_unavailable';
+  if (status === 403) return 'auth';
+  return 'upstream';
+};
+
+const webSources = (grounding: any): SearchSource[] =>
+  (grounding?.groundingChunks || [])
+    .filter((c: any) => c.web)
+    .map((c: any) => ({ title: c.web.title || 'Source', uri: c.web.uri || '#' }));
+
+// Parse a server-sent events body into the JSON payload of each `data:` line
+async function* readSse(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (line.startsWith('data:')) {
+        yield JSON.parse(line.slice(5));
+      }
+    }
+  }
+
+  const rest = buffer.trim();
+  if (rest.startsWith('data:')) {
+    yield JSON.parse(rest.slice(5));
+  }
+}
+
+// Gemini reports support ranges as UTF-8 byte offsets into the whole answer, so grounding
+// blocks are held back until the text is complete
+async function* toEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderEvent> {
+  let fullText = '';
+  const blocks: any[] = [];
+
+  for await (const chunk of readSse(body)) {
+    checkBlocked(chunk);
+    const candidate = chunk.candidates?.[0];
+    const text = candidateText(candidate);
+    if (text) {
+      fullText += text;
+      yield { type: 'text', text };
+    }
+    // groundingMetadata contains the web source chunks, the supports that tie them
+    // to spans of the answer, and the queries the model searched for
+    if (candidate?.groundingMetadata) blocks.push(candidate.groundingMetadata);
+  }
+
+  const bytes = new TextEncoder().encode(fullText);
+  const decoder = new TextDecoder();
+  const charOffset = (byteOffset: number) => decoder.decode(bytes.slice(0, byteOffset)).length;
+
+  for (const grounding of blocks) {
+    // Supports point at groundingChunks, which may include non-web chunks left out of the sources
+    const sourceIndex: number[] = [];
+    let webCount = 0;
+    (grounding.groundingChunks || []).forEach((c: any, i: number) => { sourceIndex[i] = c.web ? webCount++ : -1; });
+
+    const supports: GroundingSupport[] = (grounding.groundingSupports || []).map((support: any) => {
+      const sourceIndices: number[] = [];
+      const confidence: number[] = [];
+      (support.groundingChunkIndices || []).forEach((chunkIndex: number, i: number) => {
+        if ((sourceIndex[chunkIndex] ?? -1) < 0) return;
+        sourceIndices.push(sourceIndex[chunkIndex]);
+        confidence.push(support.confidenceScores?.[i] ?? 1);
+      });
+      return {
+        start: charOffset(support.segment?.startIndex || 0),
+        end: charOffset(support.segment?.endIndex || 0),
+        text: support.segment?.text || '',
+        sourceIndices,
+        confidence
+      };
+    });
+    yield { type: 'grounding', sources: webSources(grounding), supports, searchQueries: grounding.webSearchQueries || [] };
+  }
+}
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const call = async (request: GenerateRequest, stream: boolean) => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), RESPONSE_TIMEOUT_MS);
+    let response: Response;
+    try {
+      response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${MODELS[request.tier]}:${stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?'}key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(toPayload(request)),
+          signal: controller.signal
+        }
+      );
+    } catch (error: any) {
+      if (controller.signal.aborted) {
+        throw new ProviderError("Gemini didn't respond in time.", 504, 'timeout');
+      }
+      throw new ProviderError(`Couldn't reach Gemini: ${error.message}`, 502);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok || (stream && !response.body)) {
+      const data = await response.json().catch(() => ({}));
+      console.error("Gemini API Error:", data);
+      throw new ProviderError(
+        data.error?.message || `Gemini request failed (${response.status})`,
+        response.status,
+        response.ok ? 'upstream' : errorKind(request, response.status, data.error)
+      );
+    }
+    return response;
+  };
+
+  return {
+    name: 'gemini',
+
+    async stream(request) {
+      const response = await call(request, true);
+      return toEvents(response.body!);
+    },
+
+    async generate(request) {
+      const data = await (await call(request, false)).json();
+      checkBlocked(data);
+      const candidate = data.candidates?.[0];
+      return {
+        text: candidateText(candidate),
+        sources: webSources(candidate?.groundingMetadata)
+      };
+    }
+  };
+};
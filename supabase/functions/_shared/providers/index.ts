@@ -0,0 +1,27 @@
+// @ts-ignore
+declare const Deno: any;
+
+import { createGeminiProvider } from "./gemini.ts";
+import { createMockProvider } from "./mock.ts";
+import { LlmProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+// Picks the model provider from the LLM_PROVIDER secret:
+//   'gemini' (default) - needs GEMINI_API_KEY
+//   'mock'             - replays fixtures offline; MOCK_LLM_DELAY_MS spaces out streamed chunks
+export const getProvider = (): LlmProvider => {
+  const name = Deno.env.get('LLM_PROVIDER') || 'gemini';
+
+  if (name === 'mock') {
+    return createMockProvider(Number(Deno.env.get('MOCK_LLM_DELAY_MS')) || 0);
+  }
+  if (name === 'gemini') {
+    const apiKey = Deno.env.get('GEMINI_API_KEY');
+    if (!apiKey) {
+      throw new Error("Server Misconfiguration: GEMINI_API_KEY is missing");
+    }
+    return createGeminiProvider(apiKey);
+  }
+  throw new Error(`Server Misconfiguration: unknown LLM_PROVIDER '${name}'`);
+};
@@ -0,0 +1,153 @@
+import { ANSWER_FIXTURES, AnswerFixture } from "./fixtures.ts";
+import { GenerateRequest, GroundingSupport, LlmProvider, ProviderError, ProviderEvent, SearchSource } from "./types.ts";
+
+// Deterministic provider for local development and tests: no network, no API key.
+// Answers come from the recorded fixtures, or are built from the question when none matches.
+// The same request always produces the same text, chunks, sources and grounding.
+//
+// Markers in the user's message simulate failures:
+//   [mock:search-error] - the grounded request is rejected (the search function retries without search)
+//   [mock:error]        - the stream fails after the first chunk
+//   [mock:reject]       - every request is rejected
+//   [mock:blocked]      - the answer is blocked by the safety filters
+//   [mock:timeout]      - the provider doesn't respond in time
+
+const CHUNK_WORDS = 3;
+
+const lastUserMessage = (request: GenerateRequest) =>
+  [...request.turns].reverse().find((turn) => turn.role === 'user')?.content || '';
+
+const slug = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'question';
+
+// The question alone, without the notes and sources a research report request appends
+const questionOf = (message: string) => message.split('\n\n')[0].replace(/\[mock:[a-z-]+\]/g, '').trim();
+
+const generatedAnswer = (question: string, search: boolean): AnswerFixture => {
+  const sources: SearchSource[] = search
+    ? [
+        { title: `${question} - Mock Encyclopedia`, uri: `https://example.com/wiki/${slug(question)}` },
+        { title: `Latest on ${question} - Mock News`, uri: `https://news.example.org/${slug(question)}` }
+      ]
+    : [];
+  const cite = (n: number) => (search ? ` [${n}]` : '');
+  return {
+    match: '',
+    text: `This is a mock answer to "${question}".${cite(1)}
+
+It is generated locally, so it is the same every time and needs no API key.${cite(2)} Add a recorded fixture in fixtures.ts for a realistic answer.`,
+    sources,
+    searchQueries: search ? [question] : []
+  };
+};
+
+const findAnswer = (request: GenerateRequest): AnswerFixture => {
+  const message = lastUserMessage(request);
+  const lower = message.toLowerCase();
+  const fixture = ANSWER_FIXTURES.find((f) => lower.includes(f.match.toLowerCase()));
+  if (fixture) {
+    return request.search ? fixture : { ...fixture, sources: [], searchQueries: [] };
+  }
+  return generatedAnswer(questionOf(message), !!request.search);
+};
+
+// Structured requests (e.g. research plans) get a fixed JSON reply of the requested shape
+const structuredReply = (request: GenerateRequest) => {
+  const question = questionOf(lastUserMessage(request));
+  if (request.responseSchema?.type === 'ARRAY') {
+    return JSON.stringify([`${question} overview`, `${question} latest developments`, `${question} criticism and limitations`]);
+  }
+  // Objects (e.g. thread titles) get every listed property filled in from the question
+  const properties = Object.keys((request.responseSchema?.properties as Record<string, unknown>) || {});
+  if (properties.length > 0) {
+    return JSON.stringify(Object.fromEntries(properties.map((key) => [key, `Mock ${key} for "${question}"`])));
+  }
+  return JSON.stringify({ answer: question });
+};
+
+// Each sentence that ends in [n] markers is supported by those sources
+const supportsFor = (text: string, sourceCount: number): GroundingSupport[] => {
+  const supports: GroundingSupport[] = [];
+  const sentence = /(?:[^.!?\n]|[.!?](?!\s))+[.!?]?(\s*\[\d+\])+/g; // A '.' inside a number doesn't end the sentence
+  let match;
+  while ((match = sentence.exec(text)) !== null) {
+    const sourceIndices = [...match[0].matchAll(/\[(\d+)\]/g)]
+      .map((m) => Number(m[1]) - 1)
+      .filter((i) => i >= 0 && i < sourceCount);
+    if (sourceIndices.length === 0) continue;
+    const start = match.index + (match[0].length - match[0].trimStart().length);
+    supports.push({
+      start,
+      end: match.index + match[0].length,
+      text: text.slice(start, match.index + match[0].length),
+      sourceIndices,
+      confidence: sourceIndices.map(() => 0.9)
+    });
+  }
+  return supports;
+};
+
+const chunksOf = (text: string) => {
+  const words = text.split(/(?<=\s)/);
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += CHUNK_WORDS) {
+    chunks.push(words.slice(i, i + CHUNK_WORDS).join(''));
+  }
+  return chunks;
+};
+
+const checkRejected = (request: GenerateRequest) => {
+  const message = lastUserMessage(request);
+  if (message.includes('[mock:reject]')) {
+    throw new ProviderError('Mock provider rejected the request', 500);
+  }
+  if (message.includes('[mock:blocked]')) {
+    throw new ProviderError('Mock answer blocked by safety filters', 400, 'safety_blocked');
+  }
+  if (message.includes('[mock:timeout]')) {
+    throw new ProviderError('Mock provider timed out', 504, 'timeout');
+  }
+  if (message.includes('[mock:rate-limit]')) {
+    throw new ProviderError('Mock provider quota exhausted', 429, 'quota');
+  }
+  if (request.search && message.includes('[mock:search-error]')) {
+    throw new ProviderError('Mock search tool unavailable', 403, 'search_unavailable');
+  }
+};
+
+// `delayMs` spaces out streamed chunks, to see streaming in the UI
+export const createMockProvider = (delayMs = 0): LlmProvider => ({
+  name: 'mock',
+
+  async stream(request) {
+    checkRejected(request);
+    const answer = findAnswer(request);
+    const text = request.responseSchema ? structuredReply(request) : answer.text;
+    const failPartWay = lastUserMessage(request).includes('[mock:error]');
+
+    return (async function* (): AsyncGenerator<ProviderEvent> {
+      for (const [i, chunk] of chunksOf(text).entries()) {
+        if (i > 0 && failPartWay) throw new ProviderError('Mock stream interrupted', 502);
+        if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+        yield { type: 'text', text: chunk };
+      }
+      if (request.search && !request.responseSchema) {
+        yield {
+          type: 'grounding',
+          sources: answer.sources,
+          supports: supportsFor(text, answer.sources.length),
+          searchQueries: answer.searchQueries
+        };
+      }
+    })();
+  },
+
+  async generate(request) {
+    checkRejected(request);
+    if (request.responseSchema) {
+      return { text: structuredReply(request), sources: [] };
+    }
+    const answer = findAnswer(request);
+    return { text: answer.text, sources: answer.sources };
+  }
+});
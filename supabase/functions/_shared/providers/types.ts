@@ -0,0 +1,70 @@
+// The model calls the search function needs, independent of the vendor behind them.
+// gemini.ts talks to the Gemini API; mock.ts replays recorded answers without a network or
+// key (see index.ts for how one is picked).
+
+// Models are asked for by tier; each provider maps a tier to one of its own models
+export type ModelTier = 'fast' | 'pro';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  content: string;
+}
+
+export interface SearchSource {
+  title: string;
+  uri: string;
+}
+
+export interface GenerateRequest {
+  tier: ModelTier;
+  system: string;
+  turns: ChatTurn[]; // The conversation, ending with the user's message
+  search?: boolean; // Ground the answer with web search
+  responseSchema?: Record<string, unknown>; // Answer with JSON matching this (OpenAPI subset) schema
+  safeSearch: boolean; // Stricter blocking of explicit or violent content
+  maxOutputTokens?: number; // Also keeps the model's thinking short
+}
+
+// A span of the answer backed by sources. start/end are character offsets into the full
+// answer text; sourceIndices point into the `sources` of the same grounding event.
+export interface GroundingSupport {
+  start: number;
+  end: number;
+  text: string;
+  sourceIndices: number[];
+  confidence: number[]; // One score (0-1) per entry in sourceIndices
+}
+
+// Streamed in order: text chunks, then (for grounded answers) the grounding blocks
+export type ProviderEvent =
+  | { type: 'text'; text: string }
+  | { type: 'grounding'; sources: SearchSource[]; supports: GroundingSupport[]; searchQueries: string[] };
+
+export interface GenerateResult {
+  text: string;
+  sources: SearchSource[];
+}
+
+// Why a model call failed:
+//   'search_unavailable' - the search tool was rejected; the request would likely work without `search`
+//   'safety_blocked'     - the prompt or answer was blocked by the provider's safety filters
+//   'timeout'            - the provider didn't respond in time
+//   'quota'              - the provider's rate limit or quota for our key was hit
+//   'auth'               - the provider rejected our key or its permissions
+//   'upstream'           - any other provider or network failure
+export type ProviderErrorKind = 'search_unavailable' | 'safety_blocked' | 'timeout' | 'quota' | 'auth' | 'upstream';
+
+// Raised by stream() before any output, or by the returned stream part-way (e.g. a blocked answer)
+export class ProviderError extends Error {
+  constructor(message: string, public status: number, public kind: ProviderErrorKind = 'upstream') {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface LlmProvider {
+  name: string;
+  // Resolves once the model has accepted the request (rejecting with ProviderError otherwise)
+  stream(request: GenerateRequest): Promise<AsyncIterable<ProviderEvent>>;
+  generate(request: GenerateRequest): Promise<GenerateResult>;
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { callerSubject } from './quota.ts';
+import { SessionClaims } from './jwt.ts';
+
+const guest = (forwardedFor: string) =>
+  callerSubject(new Request('https://example.com/functions/v1/search', { headers: { 'x-forwarded-for': forwardedFor } }), null);
+
+describe('callerSubject', () => {
+  it('meters guests by the address the edge proxy appended', async () => {
+    const subject = await guest('203.0.113.7');
+    expect(subject).toMatch(/^guest:[0-9a-f]{64}$/);
+    expect(await guest('198.51.100.1, 203.0.113.7')).toBe(subject);
+  });
+
+  it('ignores addresses the client put in front of it', async () => {
+    const subject = await guest('10.0.0.1, 203.0.113.7');
+    expect(await guest('10.0.0.2, 203.0.113.7')).toBe(subject);
+    expect(await guest('10.0.0.3, 10.0.0.4 , 203.0.113.7')).toBe(subject);
+    expect(await guest('10.0.0.1, 203.0.113.8')).not.toBe(subject);
+  });
+
+  it('meters signed-in users by their id', async () => {
+    const session: SessionClaims = { sub: 'user-1', streekx_id: 'alice', role: 'authenticated', iat: 0, exp: 0 };
+    const request = new Request('https://example.com/', { headers: { 'x-forwarded-for': '203.0.113.7' } });
+    expect(await callerSubject(request, session)).toBe('user-1');
+  });
+});
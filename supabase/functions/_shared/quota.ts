@@ -0,0 +1,46 @@
+import { db } from "./db.ts";
+import { SessionClaims } from "./jwt.ts";
+
+export interface QuotaStatus {
+  allowed: boolean;
+  plan: string;
+  used: number;
+  limit: number;
+  resetsAt: string;
+}
+
+// The address the platform's edge proxy saw the request come from. It appends that to
+// x-forwarded-for, so only the last entry can be trusted: the ones before it are whatever
+// the client sent.
+const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',').pop()?.trim() || 'unknown';
+
+// Signed-out searches are metered per client IP, hashed so the ledger never stores raw addresses
+const guestSubject = async (req: Request) => {
+  const ip = clientIp(req);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(ip));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  return `guest:${hex}`;
+};
+
+// Who a request is metered as: the signed-in user's id, or the guest subject
+export const callerSubject = async (req: Request, session: SessionClaims | null) =>
+  session ? session.sub : await guestSubject(req);
+
+// Check the caller's plan limit and record one query in the usage ledger (see consume_query in the schema)
+export const consumeQuery = async (req: Request, session: SessionClaims | null): Promise<QuotaStatus> =>
+  db<QuotaStatus>('rpc/consume_query', {
+    method: 'POST',
+    body: JSON.stringify({
+      p_subject: await callerSubject(req, session),
+      p_user_id: session ? session.sub : null,
+      p_plan: 'Guest'
+    })
+  });
+
+export const quotaExceededMessage = (quota: QuotaStatus) => {
+  const resetDate = new Date(quota.resetsAt).toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
+  return quota.plan === 'Guest'
+    ? `You've used all ${quota.limit} guest searches this month. Sign in to keep searching.`
+    : `You've used all ${quota.limit} searches included in the ${quota.plan} plan. Your quota resets on ${resetDate}.`;
+};
@@ -0,0 +1,61 @@
+import { db } from "./db.ts";
+import { signJwt, verifyJwt } from "./jwt.ts";
+
+// Server-issued tokens that pay for later requests about one question: asking again after a
+// failed answer, the answer's follow-up suggestions, the steps of a research run, a thread's
+// title and summary. A token is bound to the caller it was issued to (`sub`, see
+// callerSubject in quota.ts) and has its own id (`jti`). Redeeming it records a usage_ledger
+// row under that id (see spend_token in the schema), so it pays for a fixed number of calls
+// and is worthless to anyone else.
+
+export interface QueryTokenClaims {
+  sub: string;
+  role: string;
+  query: string; // queryDigest of the question
+  jti: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+export const queryDigest = async (query: string) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(query))))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+export const issueQueryToken = async (role: string, subject: string, query: string, ttlSeconds: number, claims: Record<string, unknown> = {}) => {
+  const now = Math.floor(Date.now() / 1000);
+  return signJwt({ ...claims, sub: subject, role, query: await queryDigest(query), jti: crypto.randomUUID(), iat: now, exp: now + ttlSeconds });
+};
+
+// The claims of a valid token with this role issued to `subject`, or null
+export const verifyToken = async (role: string, token: unknown, subject: string): Promise<QueryTokenClaims | null> => {
+  if (typeof token !== 'string') return null;
+  try {
+    const claims = await verifyJwt<QueryTokenClaims>(token);
+    return claims?.role === role && claims.sub === subject && typeof claims.jti === 'string' ? claims : null;
+  } catch {
+    return null;
+  }
+};
+
+// Same, for a token issued for `query`
+export const verifyQueryToken = async (role: string, token: unknown, subject: string, query: string) => {
+  const claims = await verifyToken(role, token, subject);
+  return claims && claims.query === await queryDigest(query) ? claims : null;
+};
+
+// Record one call paid for by the token; false once `limit` calls were recorded under `key`.
+// `key` defaults to the token's id; tokens that pay for several kinds of call count each
+// kind under its own key.
+export const spendToken = (claims: QueryTokenClaims, userId: string | null, { key = claims.jti, limit = 1 } = {}) =>
+  db<boolean>('rpc/spend_token', {
+    method: 'POST',
+    body: JSON.stringify({ p_subject: claims.sub, p_user_id: userId, p_kind: claims.role, p_token_id: key, p_limit: limit })
+  });
+
+// Verify and spend a single-use token for `query`
+export const redeemQueryToken = async (role: string, token: unknown, subject: string, userId: string | null, query: string) => {
+  const claims = await verifyQueryToken(role, token, subject, query);
+  return !!claims && (await spendToken(claims, userId));
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { TotpAlgorithm, base32Decode, base32Encode, hotp, totp, verifyTotp } from './totp.ts';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// RFC 6238 appendix B: the seed for each hash is the ASCII string "1234567890" repeated to the
+// hash's block size, with 8-digit codes and 30-second steps
+const SEEDS: Record<TotpAlgorithm, Uint8Array> = {
+  'SHA-1': ascii('12345678901234567890'),
+  'SHA-256': ascii('12345678901234567890123456789012'),
+  'SHA-512': ascii('1234567890123456789012345678901234567890123456789012345678901234')
+};
+
+const RFC6238_VECTORS: [number, TotpAlgorithm, string][] = [
+  [59, 'SHA-1', '94287082'],
+  [59, 'SHA-256', '46119246'],
+  [59, 'SHA-512', '90693936'],
+  [1111111109, 'SHA-1', '07081804'],
+  [1111111109, 'SHA-256', '68084774'],
+  [1111111109, 'SHA-512', '25091201'],
+  [1111111111, 'SHA-1', '14050471'],
+  [1111111111, 'SHA-256', '67062674'],
+  [1111111111, 'SHA-512', '99943326'],
+  [1234567890, 'SHA-1', '89005924'],
+  [1234567890, 'SHA-256', '91819424'],
+  [1234567890, 'SHA-512', '93441116'],
+  [2000000000, 'SHA-1', '69279037'],
+  [2000000000, 'SHA-256', '90698825'],
+  [2000000000, 'SHA-512', '38618901'],
+  [20000000000, 'SHA-1', '65353130'],
+  [20000000000, 'SHA-256', '77737706'],
+  [20000000000, 'SHA-512', '47863826']
+];
+
+// RFC 4226 appendix D: 6-digit HOTP values for counters 0-9
+const RFC4226_VECTORS = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+describe('totp', () => {
+  it.each(RFC6238_VECTORS)('matches RFC 6238 at T=%i with %s', async (time, algorithm, code) => {
+    expect(await totp(SEEDS[algorithm], time, { digits: 8, algorithm })).toBe(code);
+  });
+
+  it('matches the RFC 4226 HOTP values', async () => {
+    const codes = await Promise.all(RFC4226_VECTORS.map((_, counter) => hotp(SEEDS['SHA-1'], counter)));
+    expect(codes).toEqual(RFC4226_VECTORS);
+  });
+});
+
+describe('verifyTotp', () => {
+  const secret = SEEDS['SHA-1'];
+
+  it('returns the matching counter within the drift window', async () => {
+    const code = await totp(secret, 1111111111, { digits: 8 });
+    expect(await verifyTotp(secret, code, 1111111111, { digits: 8 })).toBe(37037037);
+    expect(await verifyTotp(secret, code, 1111111111 + 30, { digits: 8 })).toBe(37037037);
+    expect(await verifyTotp(secret, code, 1111111111 - 30, { digits: 8 })).toBe(37037037);
+  });
+
+  it('rejects codes outside the window, of the wrong length or not numeric', async () => {
+    const code = await totp(secret, 59);
+    expect(await verifyTotp(secret, code, 59 + 90)).toBeNull();
+    expect(await verifyTotp(secret, code.slice(1), 59)).toBeNull();
+    expect(await verifyTotp(secret, 'abcdef', 59)).toBeNull();
+  });
+
+  it('ignores spaces in the code', async () => {
+    const code = await totp(secret, 59);
+    expect(await verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`, 59)).toBe(1);
+  });
+});
+
+describe('base32', () => {
+  it('encodes the RFC 4648 test vectors', () => {
+    expect(base32Encode(ascii('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Encode(ascii('fooba'))).toBe('MZXW6YTB');
+    expect(base32Encode(ascii('f'))).toBe('MY');
+  });
+
+  it('decodes what it encodes, ignoring case, padding and spaces', () => {
+    expect(base32Decode('mzxw 6ytb oi======')).toEqual(ascii('foobar'));
+    expect(base32Decode(base32Encode(SEEDS['SHA-512']))).toEqual(SEEDS['SHA-512']);
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('MZXW1')).toThrow(/Invalid base32/);
+  });
+});
@@ -0,0 +1,97 @@
+// RFC 4226 (HOTP) / RFC 6238 (TOTP) one-time passwords, using WebCrypto only so the same
+// code runs in the edge runtime and offline against the RFC 6238 appendix B test vectors.
+
+export type TotpAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-512';
+
+export interface TotpOptions {
+  step?: number; // Seconds per time step (RFC default 30)
+  digits?: number; // Code length (authenticator apps use 6)
+  algorithm?: TotpAlgorithm;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (bytes: Uint8Array): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (input: string): Uint8Array => {
+  const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const output: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error(`Invalid base32 character '${char}'`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      output.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(output);
+};
+
+// 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+export const generateSecret = (): string => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const hotp = async (secret: Uint8Array, counter: number, digits = 6, algorithm: TotpAlgorithm = 'SHA-1'): Promise<string> => {
+  const message = new Uint8Array(8);
+  let rest = counter;
+  for (let i = 7; i >= 0; i--) {
+    message[i] = rest & 0xff;
+    rest = Math.floor(rest / 256);
+  }
+
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: algorithm }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  // Dynamic truncation (RFC 4226 section 5.3)
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return (binary % 10 ** digits).toString().padStart(digits, '0');
+};
+
+export const totpCounter = (timeSeconds: number, step = 30) => Math.floor(timeSeconds / step);
+
+export const totp = (secret: Uint8Array, timeSeconds: number, { step = 30, digits = 6, algorithm = 'SHA-1' }: TotpOptions = {}) =>
+  hotp(secret, totpCounter(timeSeconds, step), digits, algorithm);
+
+// Check a code against the current step and `window` steps either side (clock drift).
+// Returns the matching counter so callers can reject reuse of the same code, or null.
+export const verifyTotp = async (
+  secret: Uint8Array,
+  code: string,
+  timeSeconds: number,
+  { window = 1, ...options }: TotpOptions & { window?: number } = {}
+): Promise<number | null> => {
+  const digits = options.digits ?? 6;
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return null;
+
+  const current = totpCounter(timeSeconds, options.step);
+  for (let drift = -window; drift <= window; drift++) {
+    if (await hotp(secret, current + drift, digits, options.algorithm) === normalized) {
+      return current + drift;
+    }
+  }
+  return null;
+};
+
+export const otpauthUri = (secret: string, account: string, issuer = 'StreekX') =>
+  `otpauth://totp/${encodeURIComponent(issuer)}:${encodeURIComponent(account)}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=6&period=30`;
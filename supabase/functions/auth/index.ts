@@ -0,0 +1,342 @@
+// @ts-ignore
+declare const Deno: any;
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { db, DbError } from "../_shared/db.ts";
+import { issueSessionToken, issueMfaChallengeToken, verifyMfaChallengeToken, getSession, SessionClaims } from "../_shared/jwt.ts";
+import { hashPassword, verifyPassword } from "../_shared/password.ts";
+import { base32Decode, base32Encode, generateSecret, otpauthUri, verifyTotp } from "../_shared/totp.ts";
+
+// StreekX identity service. Passwords are only ever hashed and checked here (salted scrypt),
+// and the client receives a signed session token instead of the raw user id.
+//
+// POST { action: 'signup', streekxId, password, name, phone, gender, dob } -> { token }
+// POST { action: 'login', streekxId, password }                           -> { token } | { mfaRequired, mfaToken }
+// POST { action: 'login-mfa', mfaToken, code }   (TOTP or recovery code)  -> { token }
+// POST { action: 'change-password', currentPassword, password, code? }
+//                                                (Bearer session token)   -> { token }
+// POST { action: 'totp-enroll' }                 (Bearer session token)   -> { secret, otpauthUri }
+// POST { action: 'totp-activate', code }         (Bearer session token)   -> { recoveryCodes }
+// POST { action: 'totp-disable', code }          (Bearer session token)   -> { ok: true }
+
+class AuthError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+interface UserRow {
+  id: string;
+  streekx_id: string;
+  password_hash: string;
+  totp_enabled: boolean;
+}
+
+interface TotpRow {
+  id: string;
+  streekx_id: string;
+  totp_secret: string | null;
+  totp_enabled: boolean;
+  totp_last_counter: number | null;
+}
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Failed second-factor checks allowed before they are refused for a while (see begin_mfa_attempt)
+const MAX_MFA_ATTEMPTS = 5;
+const MFA_LOCKOUT_SECONDS = 60 * 15;
+
+const normalizeId = (value: unknown) => String(value || '').trim().toLowerCase().replace(/\s/g, '');
+
+const validateCredentials = (streekxId: string, password: unknown) => {
+  if (streekxId.length < 3) {
+    throw new AuthError("StreekX ID must be at least 3 characters.");
+  }
+  if (typeof password !== 'string' || password.length < 6) {
+    throw new AuthError("Password must be at least 6 characters.");
+  }
+};
+
+const signup = async (body: any) => {
+  const streekxId = normalizeId(body.streekxId);
+  validateCredentials(streekxId, body.password);
+
+  const name = String(body.name || streekxId);
+  try {
+    const [user] = await db<UserRow[]>('users?select=id,streekx_id', {
+      method: 'POST',
+      prefer: 'return=representation',
+      body: JSON.stringify({
+        streekx_id: streekxId,
+        password_hash: await hashPassword(body.password),
+        full_name: name,
+        avatar_url: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=D4FF5B&color=0F0F0F`,
+        phone: body.phone || null,
+        gender: body.gender || null,
+        dob: body.dob || null,
+        bio: 'New StreekX Explorer'
+      })
+    });
+    return { token: await issueSessionToken(user) };
+  } catch (error) {
+    if (error instanceof DbError && error.code === '23505') { // Unique violation
+      throw new AuthError("This StreekX ID is already taken. Please login instead.", 409);
+    }
+    throw error;
+  }
+};
+
+const requireSession = async (req: Request) => {
+  const session = await getSession(req);
+  if (!session) {
+    throw new AuthError("Your session has expired. Please sign in again.", 401);
+  }
+  return session;
+};
+
+// --- Two-factor helpers ---
+
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const hashRecoveryCode = async (code: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeRecoveryCode(code)));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 50 random bits per code, shown to the user once as 'xxxxx-xxxxx'
+const generateRecoveryCodes = () =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const getTotpRow = async (userId: string) => {
+  const [user] = await db<TotpRow[]>(`users?select=id,streekx_id,totp_secret,totp_enabled,totp_last_counter&id=eq.${userId}`);
+  if (!user) {
+    throw new AuthError("Account not found.", 404);
+  }
+  return user;
+};
+
+// Accept a code from the authenticator app, rejecting one that was already used
+const checkTotpCode = async (user: TotpRow, code: string) => {
+  if (!user.totp_secret) return false;
+
+  const counter = await verifyTotp(base32Decode(user.totp_secret), code, Math.floor(Date.now() / 1000));
+  if (counter === null || (user.totp_last_counter !== null && counter <= user.totp_last_counter)) {
+    return false;
+  }
+
+  await db(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ totp_last_counter: counter })
+  });
+  return true;
+};
+
+// Spend an unused recovery code. The `used_at=is.null` filter makes this single-use even
+// when two requests race.
+const useRecoveryCode = async (userId: string, code: string) => {
+  const used = await db<{ id: string }[]>(
+    `user_recovery_codes?user_id=eq.${userId}&code_hash=eq.${await hashRecoveryCode(code)}&used_at=is.null&select=id`,
+    {
+      method: 'PATCH',
+      prefer: 'return=representation',
+      body: JSON.stringify({ used_at: new Date().toISOString() })
+    }
+  );
+  return used.length > 0;
+};
+
+// Every check counts towards the user's attempt limit until one succeeds, so codes can't be
+// guessed however many sign-in attempts or requests are made in parallel
+const checkSecondFactor = async (user: TotpRow, code: unknown) => {
+  const attempt = await db<{ allowed: boolean; lockedUntil?: string }>('rpc/begin_mfa_attempt', {
+    method: 'POST',
+    body: JSON.stringify({ p_user_id: user.id, p_max_attempts: MAX_MFA_ATTEMPTS, p_lockout_seconds: MFA_LOCKOUT_SECONDS })
+  });
+  if (!attempt.allowed) {
+    const minutes = Math.max(1, Math.ceil((new Date(attempt.lockedUntil!).getTime() - Date.now()) / 60000));
+    throw new AuthError(`Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`, 429);
+  }
+
+  if (typeof code !== 'string' || !code.trim()) return false;
+  const valid = /^\d{6}$/.test(code.replace(/\s/g, ''))
+    ? await checkTotpCode(user, code)
+    : await useRecoveryCode(user.id, code);
+  if (valid) {
+    await db(`users?id=eq.${user.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ mfa_attempts: 0 })
+    });
+  }
+  return valid;
+};
+
+const replaceRecoveryCodes = async (userId: string) => {
+  const codes = generateRecoveryCodes();
+  await db(`user_recovery_codes?user_id=eq.${userId}`, { method: 'DELETE' });
+  await db('user_recovery_codes', {
+    method: 'POST',
+    body: JSON.stringify(await Promise.all(codes.map(async code => ({ user_id: userId, code_hash: await hashRecoveryCode(code) }))))
+  });
+  return codes;
+};
+
+// --- Actions ---
+
+const login = async (body: any) => {
+  const streekxId = normalizeId(body.streekxId);
+  const [user] = await db<UserRow[]>(`users?select=id,streekx_id,password_hash,totp_enabled&streekx_id=eq.${encodeURIComponent(streekxId)}`);
+
+  const check = user && typeof body.password === 'string'
+    ? await verifyPassword(body.password, user.password_hash)
+    : { valid: false, needsRehash: false };
+
+  if (!user || !check.valid) {
+    throw new AuthError("Invalid StreekX ID or Password.", 401);
+  }
+
+  // Upgrade legacy SHA-256 (or weaker scrypt) hashes now that we know the plaintext
+  if (check.needsRehash) {
+    await db(`users?id=eq.${user.id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ password_hash: await hashPassword(body.password) })
+    });
+  }
+
+  if (user.totp_enabled) {
+    return { mfaRequired: true, mfaToken: await issueMfaChallengeToken(user) };
+  }
+  return { token: await issueSessionToken(user) };
+};
+
+const loginMfa = async (body: any) => {
+  const challenge = await verifyMfaChallengeToken(body.mfaToken);
+  if (!challenge) {
+    throw new AuthError("Your sign-in attempt expired. Please enter your password again.", 401);
+  }
+
+  const user = await getTotpRow(challenge.sub);
+  if (!user.totp_enabled || !(await checkSecondFactor(user, body.code))) {
+    throw new AuthError("Invalid authentication code.", 401);
+  }
+  return { token: await issueSessionToken(user) };
+};
+
+// Needs the current password (and a second-factor code when 2FA is on), so a stolen session
+// token can't take over the account. Every other session is signed out; the caller gets a
+// fresh token.
+const changePassword = async (req: Request, body: any) => {
+  const session = await requireSession(req);
+  if (typeof body.password !== 'string' || body.password.length < 6) {
+    throw new AuthError("Password must be at least 6 characters.");
+  }
+
+  const [user] = await db<(UserRow & TotpRow)[]>(`users?select=id,streekx_id,password_hash,totp_secret,totp_enabled,totp_last_counter&id=eq.${session.sub}`);
+  if (!user) {
+    throw new AuthError("Account not found.", 404);
+  }
+  const check = typeof body.currentPassword === 'string'
+    ? await verifyPassword(body.currentPassword, user.password_hash)
+    : { valid: false };
+  if (!check.valid) {
+    throw new AuthError("Your current password is incorrect.", 401);
+  }
+  if (user.totp_enabled && !(await checkSecondFactor(user, body.code))) {
+    throw new AuthError("Invalid authentication code.", 401);
+  }
+
+  await db(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ password_hash: await hashPassword(body.password), password_changed_at: new Date().toISOString() })
+  });
+  return { token: await issueSessionToken(user) };
+};
+
+// Store a fresh secret; 2FA stays off until a code from it is confirmed with 'totp-activate'
+const enrollTotp = async (session: SessionClaims) => {
+  const user = await getTotpRow(session.sub);
+  if (user.totp_enabled) {
+    throw new AuthError("Two-factor authentication is already enabled.", 409);
+  }
+
+  const secret = generateSecret();
+  await db(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ totp_secret: secret, totp_last_counter: null })
+  });
+  return { secret, otpauthUri: otpauthUri(secret, user.streekx_id) };
+};
+
+const activateTotp = async (session: SessionClaims, body: any) => {
+  const user = await getTotpRow(session.sub);
+  if (user.totp_enabled) {
+    throw new AuthError("Two-factor authentication is already enabled.", 409);
+  }
+  if (!user.totp_secret) {
+    throw new AuthError("Start two-factor setup first.");
+  }
+  if (typeof body.code !== 'string' || !(await checkTotpCode(user, body.code))) {
+    throw new AuthError("That code didn't match. Check your authenticator app and try again.");
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(user.id);
+  await db(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ totp_enabled: true })
+  });
+  return { recoveryCodes };
+};
+
+const disableTotp = async (session: SessionClaims, body: any) => {
+  const user = await getTotpRow(session.sub);
+  if (!user.totp_enabled) {
+    return { ok: true };
+  }
+  if (!(await checkSecondFactor(user, body.code))) {
+    throw new AuthError("Invalid authentication code.", 401);
+  }
+
+  await db(`users?id=eq.${user.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ totp_enabled: false, totp_secret: null, totp_last_counter: null })
+  });
+  await db(`user_recovery_codes?user_id=eq.${user.id}`, { method: 'DELETE' });
+  return { ok: true };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+
+    switch (body.action) {
+      case 'signup':
+        return jsonResponse(await signup(body));
+      case 'login':
+        return jsonResponse(await login(body));
+      case 'login-mfa':
+        return jsonResponse(await loginMfa(body));
+      case 'change-password':
+        return jsonResponse(await changePassword(req, body));
+      case 'totp-enroll':
+        return jsonResponse(await enrollTotp(await requireSession(req)));
+      case 'totp-activate':
+        return jsonResponse(await activateTotp(await requireSession(req), body));
+      case 'totp-disable':
+        return jsonResponse(await disableTotp(await requireSession(req), body));
+      default:
+        throw new AuthError(`Unknown action '${body.action}'`);
+    }
+  } catch (error: any) {
+    if (error instanceof AuthError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("Auth Error:", error);
+    return jsonResponse({ error: "Authentication service unavailable. Please try again." }, 500);
+  }
+});
@@ -0,0 +1,68 @@
+// Keeps the conversation sent to the model within a token budget. The client sends every earlier
+// turn of the thread, plus the summary it was given last time (if any). Once the summary and
+// turns together outgrow the budget, the oldest turns are folded into a new summary and the
+// client is told how many turns that summary now covers, so it stops sending them.
+
+import { ChatTurn } from "../_shared/providers/index.ts";
+
+export interface FittedHistory {
+  turns: ChatTurn[]; // Sent to the model verbatim, after the summary
+  summary?: string;
+  summarizedTurns: number; // How many of the given turns were folded into `summary` by this call
+}
+
+// Rough budget for the earlier conversation; the answer, system prompt and search results
+// need room as well
+export const HISTORY_TOKEN_BUDGET = 8000;
+const RECENT_TURNS_KEPT = 4; // The last two question/answer pairs are never summarised
+const MAX_SUMMARY_CHARS = 6000;
+
+export const SUMMARY_INSTRUCTION = `Summarise the earlier part of a conversation between a user and a search assistant.
+RULES:
+- Keep the user's goals, constraints and preferences, and the key facts, figures and conclusions from the answers.
+- Mention which sources or sites were relied on when that matters for follow-ups.
+- Write plain prose or short bullet points, at most about 400 words. Do not add anything new.`;
+
+// Models average about four characters per token for English text
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const historyTokens = (turns: ChatTurn[], summary?: string) =>
+  turns.reduce((total, turn) => total + estimateTokens(turn.content), estimateTokens(summary || ''));
+
+const transcript = (turns: ChatTurn[]) =>
+  turns.map((turn) => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`).join('\n\n');
+
+export const fitHistory = async (
+  turns: ChatTurn[],
+  summary: string | undefined,
+  summarize: (text: string) => Promise<string>
+): Promise<FittedHistory> => {
+  if (historyTokens(turns, summary) <= HISTORY_TOKEN_BUDGET || turns.length <= RECENT_TURNS_KEPT) {
+    return { turns, summary, summarizedTurns: 0 };
+  }
+
+  const folded = turns.length - RECENT_TURNS_KEPT;
+  const recent = turns.slice(folded);
+  try {
+    const text = await summarize([
+      summary && `SUMMARY OF THE CONVERSATION SO FAR:\n${summary}`,
+      `LATER TURNS:\n${transcript(turns.slice(0, folded))}`
+    ].filter(Boolean).join('\n\n'));
+    if (text.trim()) {
+      return { turns: recent, summary: text.trim().slice(0, MAX_SUMMARY_CHARS), summarizedTurns: folded };
+    }
+  } catch (error) {
+    console.warn("Summarising the conversation failed, dropping the oldest turns:", error);
+  }
+
+  // Without a new summary, answer from the old one and as many recent turns as fit
+  let kept = turns.length;
+  while (kept > RECENT_TURNS_KEPT && historyTokens(turns.slice(turns.length - kept), summary) > HISTORY_TOKEN_BUDGET) {
+    kept -= 2;
+  }
+  return { turns: turns.slice(turns.length - kept), summary, summarizedTurns: 0 };
+};
+
+// Append the summary to the system prompt, like the workspace context
+export const withConversationSummary = (instruction: string, summary?: string) =>
+  summary ? `${instruction}\n\nEARLIER IN THIS CONVERSATION (summary of turns no longer shown):\n${summary}` : instruction;
@@ -1,98 +1,596 @@
 // @ts-ignore
 declare const Deno: any;
 
-import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { db } from "../_shared/db.ts";
+import { getSession } from "../_shared/jwt.ts";
+import { callerSubject, consumeQuery, quotaExceededMessage } from "../_shared/quota.ts";
+import { issueQueryToken, queryDigest, redeemQueryToken, spendToken, verifyToken } from "../_shared/tokens.ts";
+import { SEARCH_MODES, SearchModeConfig, buildModeInstruction, resolveMode } from "./modes.ts";
+import { SUMMARY_INSTRUCTION, fitHistory, withConversationSummary } from "./context.ts";
+import { ChatTurn, GroundingSupport, LlmProvider, ProviderError, ProviderErrorKind, ProviderEvent, SearchSource, getProvider } from "../_shared/providers/index.ts";
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+// Streams a search-grounded answer back to the browser as NDJSON, one event per line:
+//   { "type": "usage", "plan": "...", "used": n, "limit": n, "resetsAt": "..." }
+//                                           - the caller's quota after this query, sent first
+//   { "type": "context", "summary": "...", "summarizedTurns": n }
+//                                           - the first n turns of `history` were folded into `summary`
+//                                             (see context.ts); send the summary and drop them from now on
+//   { "type": "ungrounded", "reason": "search_unavailable", "retryToken": "..." }
+//                                           - the search tool was rejected, so the answer is written
+//                                             without live results; the token asks again with search
+//   { "type": "text", "text": "..." }       - a token chunk, in order
+//   { "type": "sources", "sources": [...] } - de-duplicated grounding sources, sent once at the end
+//   { "type": "grounding", "segments": [...], "searchQueries": [...] }
+//                                           - which answer spans each source supports, sent after the sources
+//   { "type": "done", "followUpToken": "...", "summaryToken": "..." }
+//                                           - the answer is complete; the first token asks for follow-ups,
+//                                             the second (signed in, first turn of a thread only) has the
+//                                             'summarize' function title the thread
+//   { "type": "error", "message": "...", "code": "...", "retryToken": "..." }
+//                                           - the stream failed part-way
+// Failures carry a `code` (also in non-streamed { error, code } responses): 'quota_exceeded',
+// 'run_expired', 'safety_blocked', 'tool_unavailable', 'timeout', 'rate_limited' (the model
+// provider is over its limits, not the user), 'misconfigured' or 'server'. A failed search
+// that was already counted also carries a `retryToken` (see issueRetryToken).
+// Model calls go through the provider picked by LLM_PROVIDER (see _shared/providers): Gemini,
+// whose key only lives here (as a function secret) and never in the client bundle, or the
+// offline mock used for development and tests.
+// Every query is counted against the caller's plan; once the limit is reached the function
+// answers 429 with { error, code: 'quota_exceeded', quota } instead of streaming.
+// The user's safe search and data saver preferences set the safety thresholds, extra rules
+// in the system prompt and, for data saver, a cap on the answer length.
+// The request's `mode` (see modes.ts) picks the model, role prompt, preferred sources and format.
+//
+// Research runs (Deep Research) are split into steps selected by `step`:
+//   'plan'     { query, maxSteps? }            -> { subQueries, runToken, usage }
+//   'research' { query: subQuery, runToken }   -> { text, sources }   (one of the plan's subQueries)
+//   'report'   { query, notes, sources, runToken } -> the NDJSON stream above, citing `sources` by number
+//
+// Follow-up suggestions for a finished answer are a companion call, paid for by the answer:
+//   'followups' { query, answer, sources, history, followUpToken } -> { questions }
+//
+// The home page of guests and new users suggests what people are searching for today:
+//   'trends' {} -> { questions }   (not counted; see trendingQuestions)
+
+const SEARCH_RULES = `RULES:
+- NEVER answer from your own knowledge.
+- ALWAYS use the googleSearch tool for every query to get the latest information.
+- If the search tool returns no results, state that you cannot find the information.
+- Do not guess or hallucinate.
+- Always cite your sources inline using the provided grounding metadata, as numbered markers like [1], [2] in the order the sources are first used.`;
+
+const OFFLINE_RULES = `RULES:
+- The live search tool is temporarily unavailable. Provide a helpful response based on your training data.
+- Do not cite sources or use [n] markers.`;
+
+// Research runs: plan sub-queries, research each with grounding, then write the report from the notes
+const PLAN_INSTRUCTION = (count: number) =>
+  `Break the user's question into at most ${count} focused web search queries that together cover it from different angles. Reply with a JSON array of query strings only.`;
+
+const FINDINGS_RULES = `RULES:
+- ALWAYS use the googleSearch tool.
+- Report the facts, figures, dates and differing viewpoints you find in detail, in markdown.
+- Do not add citation markers; sources are tracked separately.`;
+
+const REPORT_RULES = `RULES:
+- Write only from the RESEARCH NOTES provided with the question; do not add facts that are not in them.
+- Cite claims inline with the numbers of the SOURCES list, like [1], [2].
+- If the notes don't cover part of the question, say so.`;
+
+const TRENDS_RULES = `RULES:
+- ALWAYS use the googleSearch tool.
+- List the news stories, events, releases and topics people are searching for most today, worldwide, each with a one-line description.
+- Leave out anything sexually explicit, graphic or violent.`;
+
+const TRENDING_QUESTIONS_INSTRUCTION = (count: number) =>
+  `Write ${count} questions someone curious about the TRENDS listed by the user would search for, each on a different topic and under 8 words. Reply with a JSON array of question strings only.`;
+
+const FOLLOW_UP_INSTRUCTION = (min: number, max: number) =>
+  `Suggest ${min} to ${max} follow-up questions the user is likely to ask next, given the conversation, the latest question, its ANSWER and the SOURCES it used. Each should explore something the answer or its sources raise but don't settle, be under 12 words, be in the question's language, and not repeat a question already asked. Reply with a JSON array of question strings only.`;
+
+// Saved research of the workspace a thread was started in
+interface WorkspaceContext {
+  name: string;
+  description: string;
+  instructions: string;
+  notes: string[];
+  sources: SearchSource[];
+}
+
+// Preferences view toggles that change the model call
+interface SearchPreferences {
+  safeSearch: boolean;
+  dataSaver: boolean;
+}
+
+const DEFAULT_PREFERENCES: SearchPreferences = { safeSearch: true, dataSaver: false };
+
+const DATA_SAVER_MAX_OUTPUT_TOKENS = 1024;
+
+const SAFE_SEARCH_RULE = "- Safe search is on: do not include or link to sexually explicit, graphic or violent content, and leave out sources that host it.";
+const DATA_SAVER_RULE = "- Data saver is on: keep the answer short (a few sentences or bullet points), without tables or long code blocks.";
+
+const withPreferences = (instruction: string, preferences: SearchPreferences) =>
+  [instruction, preferences.safeSearch && SAFE_SEARCH_RULE, preferences.dataSaver && DATA_SAVER_RULE].filter(Boolean).join('\n');
+
+// Safe search tightens the provider's blocking thresholds; data saver caps the response length
+const modelSettings = (preferences: SearchPreferences) => ({
+  safeSearch: preferences.safeSearch,
+  maxOutputTokens: preferences.dataSaver ? DATA_SAVER_MAX_OUTPUT_TOKENS : undefined
+});
+
+const MAX_CONTEXT_NOTES = 20;
+const MAX_CONTEXT_SOURCES = 30;
+
+// Append the workspace's goal, instructions, notes and pinned sources to the system prompt,
+// so the answer builds on the research already collected instead of starting cold
+const withWorkspaceContext = (instruction: string, workspace?: WorkspaceContext) => {
+  if (!workspace) return instruction;
+
+  const sections = [
+    `WORKSPACE: "${workspace.name}"`,
+    workspace.description && `Goal: ${workspace.description}`,
+    workspace.instructions && `Instructions from the user for this workspace (follow them unless they conflict with the RULES):\n${workspace.instructions}`,
+    workspace.notes?.length && `The user's notes:\n${workspace.notes.slice(0, MAX_CONTEXT_NOTES).map(n => `- ${n}`).join('\n')}`,
+    workspace.sources?.length && `Sources already collected (prefer building on these and say when new findings differ):\n${workspace.sources.slice(0, MAX_CONTEXT_SOURCES).map(s => `- ${s.title} (${s.uri})`).join('\n')}`
+  ].filter(Boolean);
+
+  return `${instruction}\n\nThis thread belongs to a research workspace.\n${sections.join('\n\n')}`;
+};
+
+// A span of the answer text backed by one or more sources.
+// start/end are string offsets into the answer.
+interface GroundingSegment {
+  start: number;
+  end: number;
+  text: string;
+  sourceIndices: number[];
+  confidence: number[];
+}
+
+type SendEvent = (event: Record<string, unknown>) => void;
+
+// Error codes and statuses reported for provider failures; anything else is a 'server' error
+const PROVIDER_FAILURES: Record<ProviderErrorKind, { code: string; status: number }> = {
+  search_unavailable: { code: 'tool_unavailable', status: 503 },
+  safety_blocked: { code: 'safety_blocked', status: 422 },
+  timeout: { code: 'timeout', status: 504 },
+  quota: { code: 'rate_limited', status: 503 },
+  auth: { code: 'misconfigured', status: 502 },
+  upstream: { code: 'server', status: 502 }
+};
+
+const failureOf = (error: unknown) =>
+  error instanceof ProviderError ? PROVIDER_FAILURES[error.kind] : { code: 'server', status: 500 };
+
+// A search is counted before the model is called, so a failed answer comes with a retry token:
+// asking the same question again with it, within a few minutes, isn't counted a second time.
+// An answer written without live search gets one too, to ask again once search is back.
+// The retried answer comes with a new token of its own.
+const RETRY_TTL_SECONDS = 60 * 5;
+
+// A finished answer comes with a token for its follow-up suggestions, good for a while after
+const FOLLOW_UP_TTL_SECONDS = 60 * 30;
+
+// The first answer of a signed-in user's thread pays for its title and summary
+const SUMMARY_TTL_SECONDS = 60 * 30;
+
+// All are only valid for the caller they were issued to (see _shared/tokens.ts). Retry and
+// follow-up tokens are single-use; a summary token pays for a few attempts (see 'summarize').
+const issueRetryToken = (subject: string, query: string) => issueQueryToken('search_retry', subject, query, RETRY_TTL_SECONDS);
+const issueFollowUpToken = (subject: string, query: string) => issueQueryToken('search_followups', subject, query, FOLLOW_UP_TTL_SECONDS);
+const issueSummaryToken = (userId: string, query: string) => issueQueryToken('thread_summary', userId, query, SUMMARY_TTL_SECONDS);
+
+// --- Follow-up suggestions ---
+
+const MIN_FOLLOW_UPS = 3;
+const MAX_FOLLOW_UPS = 5;
+const MAX_FOLLOW_UP_CONTEXT_TURNS = 6;
+const MAX_FOLLOW_UP_ANSWER_CHARS = 6000;
+const MAX_FOLLOW_UP_SOURCES = 10;
+const MAX_FOLLOW_UP_CHARS = 150;
+
+// Questions grounded in the thread so far, the answer and its sources (titles only, no search)
+const suggestFollowUps = async (
+  provider: LlmProvider,
+  query: string,
+  answer: string,
+  sources: SearchSource[],
+  history: ChatTurn[],
+  preferences: SearchPreferences
+) => {
+  const sourceList = sources.slice(0, MAX_FOLLOW_UP_SOURCES).map((s, i) => `[${i + 1}] ${s.title}`).join('\n');
+  const result = await provider.generate({
+    tier: 'fast',
+    system: FOLLOW_UP_INSTRUCTION(MIN_FOLLOW_UPS, MAX_FOLLOW_UPS),
+    turns: [
+      ...history.slice(-MAX_FOLLOW_UP_CONTEXT_TURNS),
+      { role: 'user', content: `${query}\n\nANSWER:\n${answer.slice(0, MAX_FOLLOW_UP_ANSWER_CHARS)}\n\nSOURCES:\n${sourceList || '(none)'}` }
+    ],
+    responseSchema: { type: 'ARRAY', items: { type: 'STRING' } },
+    safeSearch: preferences.safeSearch
+  });
+
+  const suggested = JSON.parse(result.text);
+  if (!Array.isArray(suggested)) return [];
+  const asked = new Set([query, ...history.filter((t) => t.role === 'user').map((t) => t.content)].map((q) => q.trim().toLowerCase()));
+  return suggested
+    .filter((q): q is string => typeof q === 'string')
+    .map((q) => q.trim().slice(0, MAX_FOLLOW_UP_CHARS))
+    .filter((q, i, all) => q && !asked.has(q.toLowerCase()) && all.indexOf(q) === i)
+    .slice(0, MAX_FOLLOW_UPS);
+};
+
+// --- Trending questions ---
+// One list for every caller, stored in trending_questions (see the schema). Once it is an hour
+// old the first request to claim the refresh asks the model for a new one, with live search and
+// safe search on; everyone else, and everyone if the refresh fails, gets the stored list. So the
+// step costs at most one refresh an hour however often it is called, and isn't counted.
+
+const TRENDS_MAX_AGE_SECONDS = 60 * 60;
+const TRENDS_REFRESH_TIMEOUT_SECONDS = 60 * 2;
+const TRENDS_QUESTION = "What is trending today?";
+const MAX_TRENDING_QUESTIONS = 8;
+const MAX_TRENDING_QUESTION_CHARS = 100;
+
+interface TrendsRow {
+  questions: unknown;
+  refreshed_at: string | null;
+}
+
+const writeTrendingQuestions = async (provider: LlmProvider) => {
+  const trends = await provider.generate({
+    tier: 'fast',
+    system: TRENDS_RULES,
+    turns: [{ role: 'user', content: TRENDS_QUESTION }],
+    search: true,
+    safeSearch: true
+  });
+  const result = await provider.generate({
+    tier: 'fast',
+    system: TRENDING_QUESTIONS_INSTRUCTION(MAX_TRENDING_QUESTIONS),
+    turns: [{ role: 'user', content: `${TRENDS_QUESTION}\n\nTRENDS:\n${trends.text}` }],
+    responseSchema: { type: 'ARRAY', items: { type: 'STRING' } },
+    safeSearch: true
+  });
+
+  const questions = JSON.parse(result.text);
+  if (!Array.isArray(questions)) return [];
+  return questions
+    .filter((q): q is string => typeof q === 'string')
+    .map((q) => q.trim().slice(0, MAX_TRENDING_QUESTION_CHARS))
+    .filter((q, i, all) => q && all.indexOf(q) === i)
+    .slice(0, MAX_TRENDING_QUESTIONS);
+};
+
+const trendingQuestions = async (provider: LlmProvider): Promise<string[]> => {
+  const [row] = await db<TrendsRow[]>('trending_questions?select=questions,refreshed_at&id=eq.1');
+  const stored = Array.isArray(row?.questions) ? row.questions.filter((q): q is string => typeof q === 'string') : [];
+  const age = row?.refreshed_at ? Date.now() - Date.parse(row.refreshed_at) : Infinity;
+  if (age < TRENDS_MAX_AGE_SECONDS * 1000) return stored;
+
+  const claimed = await db<boolean>('rpc/claim_trends_refresh', {
+    method: 'POST',
+    body: JSON.stringify({ p_max_age_seconds: TRENDS_MAX_AGE_SECONDS, p_timeout_seconds: TRENDS_REFRESH_TIMEOUT_SECONDS })
+  });
+  if (!claimed) return stored;
+
+  try {
+    const questions = await writeTrendingQuestions(provider);
+    if (questions.length === 0) return stored;
+    await db('trending_questions?id=eq.1', {
+      method: 'PATCH',
+      body: JSON.stringify({ questions, refreshed_at: new Date().toISOString(), refreshing_since: null })
+    });
+    return questions;
+  } catch (error) {
+    // The claim lapses after TRENDS_REFRESH_TIMEOUT_SECONDS, so a later request tries again
+    console.warn("Couldn't refresh trending questions:", error);
+    return stored;
+  }
 };
 
-serve(async (req) => {
+// --- Research steps, driven by the client's research agent (services/researchAgent.ts) ---
+// A run costs one query: the 'plan' step is counted against the quota and returns a run token
+// that authorizes the run's 'research' and 'report' steps for a limited time. The token only
+// covers the planned sub-queries and the report on the question that was planned, for the
+// caller who planned them, and pays for a few attempts at each (the client retries failures).
+
+const RESEARCH_RUN_TTL_SECONDS = 60 * 15;
+const MAX_RESEARCH_STEPS = 8;
+const MAX_RUN_STEP_ATTEMPTS = 3;
+const MAX_REPORT_NOTES_CHARS = 60000;
+const MAX_REPORT_SOURCES = 60;
+
+const issueRunToken = async (subject: string, query: string, subQueries: string[]) =>
+  issueQueryToken('research_run', subject, query, RESEARCH_RUN_TTL_SECONDS, {
+    steps: await Promise.all(subQueries.map(queryDigest))
+  });
+
+// Spend one attempt at a step of the run: researching one of its sub-queries, or writing the
+// report on its question. Each step's attempts are counted under their own ledger key.
+const spendRunStep = async (token: unknown, subject: string, userId: string | null, step: 'research' | 'report', query: string) => {
+  const claims = await verifyToken('research_run', token, subject);
+  if (!claims) return false;
+
+  const digest = await queryDigest(query);
+  const planned = step === 'report'
+    ? claims.query === digest
+    : Array.isArray(claims.steps) && claims.steps.includes(digest);
+  return planned && spendToken(claims, userId, {
+    key: `${claims.jti}:${step === 'report' ? 'report' : digest}`,
+    limit: MAX_RUN_STEP_ATTEMPTS
+  });
+};
+
+// Break the question into sub-queries; a planning failure researches the question as-is
+const planResearch = async (provider: LlmProvider, mode: SearchModeConfig, query: string, count: number, preferences: SearchPreferences) => {
+  try {
+    const plan = await provider.generate({
+      tier: mode.tier,
+      system: PLAN_INSTRUCTION(count),
+      turns: [{ role: 'user', content: query }],
+      responseSchema: { type: 'ARRAY', items: { type: 'STRING' } },
+      safeSearch: preferences.safeSearch
+    });
+    const planned = JSON.parse(plan.text);
+    if (Array.isArray(planned)) {
+      const subQueries = planned.filter((q) => typeof q === 'string' && q.trim()).slice(0, count);
+      if (subQueries.length > 0) return subQueries as string[];
+    }
+  } catch (error) {
+    console.warn("Research planning failed, researching the question directly:", error);
+  }
+  return [query];
+};
+
+// One grounded search for a sub-query. Findings are never capped by data saver; only the report is.
+const researchStep = (provider: LlmProvider, mode: SearchModeConfig, subQuery: string, preferences: SearchPreferences) =>
+  provider.generate({
+    tier: mode.tier,
+    system: buildModeInstruction(mode, withPreferences(FINDINGS_RULES, preferences)),
+    turns: [{ role: 'user', content: subQuery }],
+    search: true,
+    ...modelSettings({ ...preferences, dataSaver: false })
+  });
+
+// Point the supports of each grounding block at the de-duplicated source list
+const toSegments = (blocks: { sources: SearchSource[]; supports: GroundingSupport[] }[], sources: SearchSource[]): GroundingSegment[] =>
+  blocks.flatMap((block) => block.supports.map((support) => {
+    const sourceIndices: number[] = [];
+    const confidence: number[] = [];
+    support.sourceIndices.forEach((blockIndex, i) => {
+      const sourceIndex = sources.findIndex((s) => s.uri === block.sources[blockIndex]?.uri);
+      if (sourceIndex >= 0 && !sourceIndices.includes(sourceIndex)) {
+        sourceIndices.push(sourceIndex);
+        confidence.push(support.confidence[i] ?? 1);
+      }
+    });
+    return { start: support.start, end: support.end, text: support.text, sourceIndices, confidence };
+  })).filter((segment) => segment.end > segment.start);
+
+// Wrap an event producer as an NDJSON streaming response. A failure part-way is sent as an
+// 'error' event (with `failure` added), since the status line has already gone out.
+const ndjsonResponse = (produce: (send: SendEvent) => Promise<void>, failure: Record<string, unknown> = {}) => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event) =>
+        controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+
+      try {
+        await produce(send);
+      } catch (error: any) {
+        console.error("Stream Error:", error);
+        send({ type: 'error', message: error.message || 'Stream interrupted', code: failureOf(error).code, ...failure });
+      } finally {
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache'
+    }
+  });
+};
+
+// Re-emit the provider's stream as text events, then the sources and grounding of the answer.
+// `knownSources` (Deep Research) come first, so the numbers cited from the notes stay valid.
+// `done` is merged into the closing 'done' event.
+const pipeAnswer = async (
+  send: SendEvent,
+  events: AsyncIterable<ProviderEvent>,
+  knownSources: SearchSource[] = [],
+  done: Record<string, unknown> = {}
+) => {
+  const sources: SearchSource[] = [...knownSources];
+  const blocks: { sources: SearchSource[]; supports: GroundingSupport[] }[] = [];
+  const searchQueries = new Set<string>();
+
+  for await (const event of events) {
+    if (event.type === 'text') {
+      send({ type: 'text', text: event.text });
+      continue;
+    }
+    // Each grounding block has the web sources, the supports that tie them to spans of the
+    // answer, and the queries the model searched for
+    blocks.push(event);
+    sources.push(...event.sources);
+    event.searchQueries.forEach((q) => searchQueries.add(q));
+  }
+
+  const uniqueSources = sources.filter((source, index, self) =>
+    index === self.findIndex((t) => t.uri === source.uri)
+  );
+  send({ type: 'sources', sources: uniqueSources });
+  send({
+    type: 'grounding',
+    segments: toSegments(blocks, uniqueSources),
+    searchQueries: [...searchQueries]
+  });
+  send({ type: 'done', ...done });
+};
+
+Deno.serve(async (req: Request) => {
   // 1. Handle CORS Preflight Request
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  let retryToken: string | undefined;
+
   try {
     // 2. Parse User Request
-    const { query } = await req.json();
+    const body = await req.json() as {
+      query?: string;
+      history?: ChatTurn[];
+      summary?: string;
+      workspace?: WorkspaceContext;
+      preferences?: Partial<SearchPreferences>;
+      mode?: string;
+      step?: 'plan' | 'research' | 'report' | 'followups' | 'trends';
+      runToken?: string;
+      retryToken?: string;
+      followUpToken?: string;
+      answer?: string;
+      maxSteps?: number;
+      notes?: string;
+      sources?: SearchSource[];
+    };
+    if (body.step === 'trends') {
+      return jsonResponse({ questions: await trendingQuestions(getProvider()) });
+    }
+
+    const { query, history = [], workspace } = body;
+    const preferences = { ...DEFAULT_PREFERENCES, ...body.preferences };
+    const mode = SEARCH_MODES[resolveMode(body.mode)];
 
     if (!query) {
       throw new Error("Missing 'query' in request body");
     }
 
-    const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!geminiApiKey) {
-      throw new Error("Server Misconfiguration: GEMINI_API_KEY is missing");
+    const provider = getProvider();
+
+    const step = body.step;
+    const session = await getSession(req);
+    const subject = await callerSubject(req, session);
+    const userId = session?.sub ?? null;
+
+    // Suggestions were paid for by the answer they follow
+    if (step === 'followups') {
+      if (!(await redeemQueryToken('search_followups', body.followUpToken, subject, userId, query))) {
+        return jsonResponse({ error: "Follow-up suggestions for this answer have expired.", code: 'run_expired' }, 403);
+      }
+      return jsonResponse({
+        questions: await suggestFollowUps(provider, query, String(body.answer || ''), body.sources || [], history, preferences)
+      });
     }
 
-    // 3. Call Gemini API (v1beta with gemini-3-flash-preview)
-    // We use the REST API directly to avoid package dependencies in Deno
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-flash-preview:generateContent?key=${geminiApiKey}`;
-
-    const payload = {
-      contents: [
-        {
-          parts: [{ text: query }]
-        }
-      ],
-      // Enable Google Search Grounding
-      tools: [
-        {
-          google_search: {} 
-        }
-      ],
-      // System Prompt for Perplexity-like behavior
-      system_instruction: {
-        parts: [
-          { 
-            text: "You are a professional AI search engine. Provide a detailed, factual answer based on the search results. Use markdown for formatting and include numbered citations like [1], [2] next to the facts." 
-          }
-        ]
+    const isRunStep = step === 'research' || step === 'report';
+    let usageEvent: Record<string, unknown> | null = null;
+
+    if (isRunStep) {
+      // Later steps of a research run were paid for by its 'plan' step
+      if (!(await spendRunStep(body.runToken, subject, userId, step, query))) {
+        return jsonResponse({ error: "This research run has expired. Please ask again.", code: 'run_expired' }, 403);
+      }
+    } else if (!step && (await redeemQueryToken('search_retry', body.retryToken, subject, userId, query))) {
+      // Asking again after a failed answer that was already counted
+      retryToken = await issueRetryToken(subject, query);
+    } else {
+      // Enforce the plan's monthly query limit before spending a model call
+      const quota = await consumeQuery(req, session);
+      if (!quota.allowed) {
+        return jsonResponse({ error: quotaExceededMessage(quota), code: 'quota_exceeded', quota }, 429);
       }
+      usageEvent = { type: 'usage', plan: quota.plan, used: quota.used, limit: quota.limit, resetsAt: quota.resetsAt };
+      if (!step) retryToken = await issueRetryToken(subject, query);
+
+      if (step === 'plan') {
+        const count = Math.min(MAX_RESEARCH_STEPS, Number(body.maxSteps) || mode.research?.subQueries || MAX_RESEARCH_STEPS);
+        const subQueries = await planResearch(provider, mode, query, count, preferences);
+        return jsonResponse({
+          subQueries,
+          runToken: await issueRunToken(subject, query, subQueries),
+          usage: { plan: quota.plan, used: quota.used, limit: quota.limit, resetsAt: quota.resetsAt }
+        });
+      }
+    }
+
+    if (step === 'research') {
+      return jsonResponse(await researchStep(provider, mode, query, preferences));
+    }
+
+    // 3. Build the multi-turn conversation (earlier turns + the new query), summarising the
+    // oldest turns once the thread outgrows the history budget
+    const fitted = await fitHistory(history, body.summary, async (text) => (await provider.generate({
+      tier: 'fast',
+      system: SUMMARY_INSTRUCTION,
+      turns: [{ role: 'user', content: text }],
+      safeSearch: preferences.safeSearch
+    })).text);
+    const contextEvent = fitted.summarizedTurns > 0
+      ? { type: 'context', summary: fitted.summary, summarizedTurns: fitted.summarizedTurns }
+      : null;
+    const systemPrompt = (rules: string) =>
+      withConversationSummary(withWorkspaceContext(buildModeInstruction(mode, withPreferences(rules, preferences)), workspace), fitted.summary);
+
+    const turns: ChatTurn[] = [...fitted.turns, { role: 'user', content: query }];
+    const done = {
+      followUpToken: await issueFollowUpToken(subject, query),
+      summaryToken: session && history.length === 0 && !body.summary ? await issueSummaryToken(session.sub, query) : undefined
     };
 
-    const geminiResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(payload)
-    });
+    // The report is written only from the collected notes (no search tool), so it can only
+    // cite what the research steps found
+    if (step === 'report') {
+      const sources = (body.sources || []).slice(0, MAX_REPORT_SOURCES);
+      const numberedSources = sources.map((s, i) => `[${i + 1}] ${s.title} (${s.uri})`).join('\n');
+      const notes = String(body.notes || '').slice(0, MAX_REPORT_NOTES_CHARS);
 
-    const data = await geminiResponse.json();
+      const events = await provider.stream({
+        tier: mode.tier,
+        system: systemPrompt(REPORT_RULES),
+        turns: [
+          ...fitted.turns,
+          { role: 'user', content: `${query}\n\nRESEARCH NOTES:\n${notes || '(no findings)'}\n\nSOURCES:\n${numberedSources || '(none)'}` }
+        ],
+        ...modelSettings(preferences)
+      });
+      return ndjsonResponse(async (send) => {
+        if (contextEvent) send(contextEvent);
+        await pipeAnswer(send, events, sources, done);
+      });
+    }
 
-    if (!geminiResponse.ok) {
-      console.error("Gemini API Error:", data);
-      throw new Error(data.error?.message || "Failed to generate content from Gemini");
+    // 4. Ask the provider for a search-grounded answer, falling back to an ungrounded one
+    // if the search tool call is rejected
+    let offline = false;
+    let events: AsyncIterable<ProviderEvent>;
+    try {
+      events = await provider.stream({ tier: mode.tier, system: systemPrompt(SEARCH_RULES), turns, search: true, ...modelSettings(preferences) });
+    } catch (error) {
+      if (!(error instanceof ProviderError && error.kind === 'search_unavailable')) throw error;
+      console.warn("Search grounding unavailable:", error.message);
+      offline = true;
+      events = await provider.stream({ tier: mode.tier, system: systemPrompt(OFFLINE_RULES), turns, ...modelSettings(preferences) });
     }
 
-    // 4. Extract Answer and Grounding Metadata
-    const candidate = data.candidates?.[0];
-    const answer = candidate?.content?.parts?.[0]?.text || "I couldn't generate an answer based on the search results.";
-    
-    // groundingMetadata contains web search queries and source chunks
-    const groundingMetadata = candidate?.groundingMetadata || null;
-
-    // 5. Return JSON Response
-    return new Response(
-      JSON.stringify({ 
-        answer, 
-        groundingMetadata 
-      }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    // 5. Re-emit the provider's stream as NDJSON events
+    return ndjsonResponse(async (send) => {
+      if (usageEvent) send(usageEvent);
+      if (contextEvent) send(contextEvent);
+      if (offline) send({ type: 'ungrounded', reason: 'search_unavailable', retryToken });
+      await pipeAnswer(send, events, [], done);
+    }, { retryToken });
 
   } catch (error: any) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        status: 500, 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-      }
-    );
+    const { code, status } = failureOf(error);
+    return jsonResponse({ error: error.message, code, retryToken }, status);
   }
-});
\ No newline at end of file
+});
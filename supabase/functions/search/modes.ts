@@ -0,0 +1,74 @@
+import { ModelTier } from "../_shared/providers/index.ts";
+
+// Search modes the user picks next to the search box. Each mode has its own model tier, role prompt,
+// preferred source domains and output format. Deep Research is run by the client's research
+// agent, which plans and researches sub-queries before asking for the report (see index.ts).
+
+export type SearchMode = 'quick' | 'deep' | 'academic' | 'code' | 'news';
+
+export interface SearchModeConfig {
+  tier: ModelTier; // Mapped to a model by the provider (see _shared/providers)
+  instruction: string; // Role of the assistant in this mode, placed before the shared rules
+  preferredDomains: string[];
+  format: string; // Output format rules, one per line
+  research?: { subQueries: number }; // Research runs: how many sub-queries the plan step proposes
+}
+
+export const SEARCH_MODES: Record<SearchMode, SearchModeConfig> = {
+  quick: {
+    tier: 'fast',
+    instruction: "You are StreekX, a real-time AI search engine.",
+    preferredDomains: [],
+    format: `- Provide concise, accurate answers in markdown.
+- Lead with the direct answer, then the key supporting details.`
+  },
+  deep: {
+    tier: 'pro',
+    instruction: "You are StreekX Deep Research. You write thorough, well-structured research reports.",
+    preferredDomains: [],
+    format: `- Start with a # title, then a "Table of Contents" list linking to every section (e.g. [Background](#background)).
+- Follow with a short executive summary, one ## section per major theme, and a ## Conclusion.
+- Be comprehensive (roughly 1500-2500 words) and use tables where they help compare options or figures.
+- Point out where sources disagree or where evidence is thin.`,
+    research: { subQueries: 4 }
+  },
+  academic: {
+    tier: 'pro',
+    instruction: "You are StreekX Academic, a research assistant focused on scholarly evidence.",
+    preferredDomains: ['scholar.google.com', 'arxiv.org', 'pubmed.ncbi.nlm.nih.gov', 'nature.com', 'sciencedirect.com', 'jstor.org', '.edu'],
+    format: `- Structure the answer as ## Summary, ## Evidence and ## Limitations & Open Questions.
+- For each study mention its type (e.g. RCT, meta-analysis, preprint), year and sample size when available.
+- Prefer peer-reviewed and primary sources, and say when evidence is preliminary or contested.`
+  },
+  code: {
+    tier: 'fast',
+    instruction: "You are StreekX Code, a programming assistant that answers from current documentation.",
+    preferredDomains: ['developer.mozilla.org', 'docs.python.org', 'learn.microsoft.com', 'github.com', 'stackoverflow.com'],
+    format: `- Lead with a working example in a fenced code block with a language tag.
+- Follow with a short explanation and note version or platform caveats.
+- Prefer official documentation over blog posts.`
+  },
+  news: {
+    tier: 'fast',
+    instruction: "You are StreekX News, a real-time news briefing assistant.",
+    preferredDomains: ['reuters.com', 'apnews.com', 'bbc.com', 'bloomberg.com', 'theguardian.com'],
+    format: `- Lead with the latest development and when it happened.
+- List events newest first with their dates, and note where reports conflict.
+- Focus on reporting from the last few days unless the question asks otherwise.`
+  }
+};
+
+export const resolveMode = (value: unknown): SearchMode =>
+  typeof value === 'string' && Object.hasOwn(SEARCH_MODES, value) ? value as SearchMode : 'quick';
+
+// Combine a mode's role, the caller's rules and the mode's format into one system prompt
+export const buildModeInstruction = (mode: SearchModeConfig, rules: string) => {
+  const sections = [
+    mode.instruction,
+    rules,
+    `Today's date: ${new Date().toISOString().slice(0, 10)}.`,
+    mode.preferredDomains.length > 0 && `PREFERRED SOURCES: favour results from ${mode.preferredDomains.join(', ')} when they are relevant.`,
+    `FORMAT:\n${mode.format}`
+  ].filter(Boolean);
+  return sections.join('\n');
+};
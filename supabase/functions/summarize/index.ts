@@ -0,0 +1,145 @@
+// @ts-ignore
+declare const Deno: any;
+
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { db } from "../_shared/db.ts";
+import { getSession } from "../_shared/jwt.ts";
+import { getProvider } from "../_shared/providers/index.ts";
+import { queryDigest, spendToken, verifyToken } from "../_shared/tokens.ts";
+
+// Titles a thread once its first answer is stored: a short title and a one-paragraph summary,
+// written to the threads table (see supabase_schema.sql).
+//
+// POST { sessionId, summaryToken }   (Bearer session token)   -> { title, summary }
+//
+// Each thread is summarized once; later calls return the stored row without calling the
+// model. The model call is paid for by the search that answered the thread's first question:
+// its 'done' event carries a summaryToken for that question (see the 'search' function), so
+// stored messages the search function never answered can't be summarized. The token pays for
+// a few attempts, so a failed model call can be retried (the client retries 5xx responses).
+// A title the user renamed is kept.
+
+const SUMMARY_INSTRUCTION = `You name and summarize conversations for a search app's history.
+You get the first question of a thread, followed by its ANSWER. Reply with JSON:
+- "title": a short title for the thread (at most 8 words, no quotes or trailing period), in the question's language
+- "summary": one paragraph (2-3 sentences) on what was asked and what the answer found`;
+
+const MAX_TITLE_CHARS = 80;
+const MAX_SUMMARY_CHARS = 600;
+const MAX_ANSWER_CHARS = 8000;
+const MAX_SUMMARY_ATTEMPTS = 3;
+
+class SummarizeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+interface ThreadRow {
+  title: string;
+  summary: string | null;
+  renamed: boolean;
+}
+
+interface MessageRow {
+  id: string;
+  parent_id: string | null;
+  role: string;
+  content: string;
+}
+
+// The first answer to `question`: the model row under it, or for rows saved before threads
+// branched (parentless, older than the first parented row) the row right after it, as
+// chainLegacyMessages in services/threadTree.ts links them
+const firstAnswer = (rows: MessageRow[], question: MessageRow) => {
+  const next = rows[rows.indexOf(question) + 1];
+  const firstParented = rows.findIndex((r) => r.parent_id);
+  if (next && next.role === 'model' && !next.parent_id && (firstParented < 0 || rows.indexOf(next) < firstParented)) {
+    return next;
+  }
+  return rows.find((r) => r.role === 'model' && r.parent_id === question.id);
+};
+
+const summarize = async (userId: string, sessionId: string, summaryToken: unknown) => {
+  const filter = `user_id=eq.${userId}&session_id=eq.${encodeURIComponent(sessionId)}`;
+  const [existing] = await db<ThreadRow[]>(`threads?select=title,summary,renamed&${filter}`);
+  if (existing?.summary) {
+    return { title: existing.title, summary: existing.summary };
+  }
+
+  // The first question the token was issued for (one of the versions of the thread's first
+  // turn), and the first answer to it
+  const claims = await verifyToken('thread_summary', summaryToken, userId);
+  if (!claims) {
+    throw new SummarizeError("This thread can't be summarized.", 403);
+  }
+  const rows = await db<MessageRow[]>(`messages?select=id,parent_id,role,content&${filter}&order=created_at.asc&limit=20`);
+  let question: MessageRow | undefined;
+  for (const row of rows) {
+    if (row.role === 'user' && !row.parent_id && claims.query === await queryDigest(row.content)) {
+      question = row;
+      break;
+    }
+  }
+  const answer = question && firstAnswer(rows, question);
+  if (!question || !answer) {
+    throw new SummarizeError("This thread has no answer to summarize yet.", 409);
+  }
+  if (!(await spendToken(claims, userId, { limit: MAX_SUMMARY_ATTEMPTS }))) {
+    throw new SummarizeError("This thread can't be summarized.", 403);
+  }
+
+  const result = await getProvider().generate({
+    tier: 'fast',
+    system: SUMMARY_INSTRUCTION,
+    turns: [{ role: 'user', content: `${question.content}\n\nANSWER:\n${answer.content.slice(0, MAX_ANSWER_CHARS)}` }],
+    responseSchema: {
+      type: 'OBJECT',
+      properties: { title: { type: 'STRING' }, summary: { type: 'STRING' } },
+      required: ['title', 'summary']
+    },
+    safeSearch: true
+  });
+
+  let generated: { title?: unknown; summary?: unknown };
+  try {
+    generated = JSON.parse(result.text);
+  } catch {
+    throw new SummarizeError("The model didn't return a summary.", 502);
+  }
+  const title = existing?.renamed
+    ? existing.title
+    : String(generated.title || '').trim().replace(/^["']|["'.]$/g, '').slice(0, MAX_TITLE_CHARS) || question.content.slice(0, MAX_TITLE_CHARS);
+  const summary = String(generated.summary || '').trim().slice(0, MAX_SUMMARY_CHARS) || null;
+
+  await db('threads?on_conflict=user_id,session_id', {
+    method: 'POST',
+    prefer: 'resolution=merge-duplicates',
+    body: JSON.stringify({ user_id: userId, session_id: sessionId, title, summary, renamed: existing?.renamed ?? false })
+  });
+  return { title, summary };
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      throw new SummarizeError("Sign in to save thread titles.", 401);
+    }
+    const { sessionId, summaryToken } = await req.json();
+    if (typeof sessionId !== 'string' || !sessionId) {
+      throw new SummarizeError("Missing 'sessionId' in request body");
+    }
+    return jsonResponse(await summarize(session.sub, sessionId, summaryToken));
+  } catch (error: any) {
+    if (error instanceof SummarizeError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("Summarize Error:", error);
+    return jsonResponse({ error: "Couldn't summarize this thread." }, 500);
+  }
+});
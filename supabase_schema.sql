@@ -1,6 +1,6 @@
 -- =============================================================================
 -- STREEKX FINAL DATABASE SCHEMA
--- Compatible with Custom Auth & Realtime Workspace (Frontend Aligned)
+-- Custom Auth (edge function issued JWTs) & Realtime Workspace (Frontend Aligned)
 -- =============================================================================
 
 -- 1. Enable UUID extension for generating unique IDs
@@ -8,42 +8,249 @@ CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- 2. Clean up existing tables to ensure a clean slate
 DROP PUBLICATION IF EXISTS supabase_realtime;
+DROP TABLE IF EXISTS public.trending_questions;
+DROP TABLE IF EXISTS public.usage_ledger;
+DROP TABLE IF EXISTS public.workspace_notes;
+DROP TABLE IF EXISTS public.workspace_sources;
+DROP TABLE IF EXISTS public.workspace_threads;
+DROP TABLE IF EXISTS public.shared_threads;
+DROP TABLE IF EXISTS public.threads;
 DROP TABLE IF EXISTS public.messages;
 DROP TABLE IF EXISTS public.search_history; -- Legacy cleanup
 DROP TABLE IF EXISTS public.workspaces;
 DROP TABLE IF EXISTS public.projects; -- Legacy cleanup
+DROP TABLE IF EXISTS public.user_preferences;
+DROP TABLE IF EXISTS public.user_recovery_codes;
 DROP TABLE IF EXISTS public.users;
+DROP TABLE IF EXISTS public.plans;
 
 -- =============================================================================
--- 3. Create USERS Table
--- Stores custom identity data (StreekX ID, Password Hash, Profile)
+-- 3. Create PLANS and USERS Tables
+-- Plans hold the monthly query limits enforced by the 'search' edge function.
+-- 'Guest' applies to searches made without signing in.
+-- USERS stores custom identity data (StreekX ID, Password Hash, Profile)
+-- and the TOTP secret for two-factor auth, with a count of recent failed
+-- codes for the lockout; USER_RECOVERY_CODES holds the hashed one-time codes
+-- that can stand in for a TOTP code.
+-- USER_PREFERENCES holds the toggles of the Preferences view, one row per user.
 -- =============================================================================
+CREATE TABLE public.plans (
+  name TEXT PRIMARY KEY,
+  monthly_query_limit INTEGER NOT NULL
+);
+
+INSERT INTO public.plans (name, monthly_query_limit) VALUES
+  ('Guest', 10),
+  ('Free', 50),
+  ('Pro', 1000),
+  ('Enterprise', 10000);
+
 CREATE TABLE public.users (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   streekx_id TEXT UNIQUE NOT NULL,
-  password_hash TEXT NOT NULL,
+  password_hash TEXT NOT NULL, -- Salted scrypt, written only by the 'auth' edge function
   full_name TEXT,
   avatar_url TEXT,
   bio TEXT DEFAULT 'New StreekX Explorer',
   phone TEXT,
   gender TEXT,
   dob DATE,
+  plan TEXT DEFAULT 'Free' NOT NULL REFERENCES public.plans(name),
+  totp_secret TEXT, -- Base32; set on enrolment, only read by the 'auth' edge function
+  totp_enabled BOOLEAN DEFAULT false NOT NULL,
+  totp_last_counter BIGINT, -- Time step of the last accepted code, so codes can't be replayed
+  password_changed_at TIMESTAMP WITH TIME ZONE, -- Session tokens issued before this are refused (see session_uid())
+  mfa_attempts INTEGER DEFAULT 0 NOT NULL, -- Second-factor checks since the last success or lockout
+  mfa_locked_until TIMESTAMP WITH TIME ZONE, -- Second-factor checks are refused until then
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+CREATE TABLE public.user_recovery_codes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  code_hash TEXT NOT NULL, -- SHA-256 of the normalized code
+  used_at TIMESTAMP WITH TIME ZONE,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
 );
 
+CREATE INDEX user_recovery_codes_user_idx ON public.user_recovery_codes (user_id);
+
+-- The signed-in user (auth.uid()), or NULL when their session token was issued
+-- before their last password change. Policies and functions use this instead of
+-- auth.uid(), so changing the password signs every other session out of the
+-- database too; the edge functions make the same check in getSession().
+CREATE OR REPLACE FUNCTION public.session_uid()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT u.id FROM public.users u
+  WHERE u.id = auth.uid()
+    AND (u.password_changed_at IS NULL
+      OR coalesce((auth.jwt()->>'iat')::BIGINT, 0) >= floor(extract(epoch FROM u.password_changed_at)));
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.session_uid() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.session_uid() TO authenticated;
+
+-- Reserve one second-factor check for the user before the code is verified, so
+-- parallel guesses can't get past the limit. After p_max_attempts checks without
+-- a success the next one starts a lockout of p_lockout_seconds. The 'auth' edge
+-- function resets mfa_attempts when a code is accepted.
+CREATE OR REPLACE FUNCTION public.begin_mfa_attempt(p_user_id UUID, p_max_attempts INTEGER, p_lockout_seconds INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_attempts INTEGER;
+  v_locked_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT mfa_attempts, mfa_locked_until INTO v_attempts, v_locked_until
+  FROM public.users WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF v_locked_until > now() THEN
+    RETURN jsonb_build_object('allowed', false, 'lockedUntil', v_locked_until);
+  END IF;
+  IF v_attempts >= p_max_attempts THEN
+    v_locked_until := now() + make_interval(secs => p_lockout_seconds);
+    UPDATE public.users SET mfa_attempts = 0, mfa_locked_until = v_locked_until WHERE id = p_user_id;
+    RETURN jsonb_build_object('allowed', false, 'lockedUntil', v_locked_until);
+  END IF;
+
+  UPDATE public.users SET mfa_attempts = v_attempts + 1 WHERE id = p_user_id;
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_mfa_attempt(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE public.user_preferences (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE PRIMARY KEY,
+  safe_search BOOLEAN DEFAULT true NOT NULL,
+  notifications BOOLEAN DEFAULT false NOT NULL,
+  high_contrast BOOLEAN DEFAULT false NOT NULL,
+  data_saver BOOLEAN DEFAULT false NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
 -- =============================================================================
 -- 4. Create MESSAGES Table (Replaces Search History)
 -- Stores chat logs, queries, and roles (Perplexity Style)
+-- Both the user's query and the finished model answer are stored, so a
+-- thread can be rebuilt from history without calling Gemini again.
+-- Regenerated or edited queries are siblings under the same parent_id, so
+-- a thread is a tree of turns; ids are generated by the client.
 -- =============================================================================
 CREATE TABLE public.messages (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  parent_id UUID REFERENCES public.messages(id) ON DELETE CASCADE, -- Turn this one follows; NULL for a thread's first question
   content TEXT NOT NULL,
   role TEXT DEFAULT 'user', -- 'user' or 'model'
   session_id TEXT, -- To group chat threads
+  sources JSONB DEFAULT '[]'::jsonb, -- Grounding sources for 'model' rows
+  grounding JSONB, -- { segments, searchQueries }: which answer spans each source supports
+  ungrounded_reason TEXT CHECK (ungrounded_reason IN ('search_unavailable', 'no_results')), -- Set on 'model' rows not backed by live web results
+  mode TEXT DEFAULT 'quick' NOT NULL CHECK (mode IN ('quick', 'deep', 'academic', 'code', 'news')), -- Search mode the turn was run in
+  follow_ups JSONB, -- Suggested next questions (strings) for 'model' rows, added once they are generated
+  content_search TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', content)) STORED, -- Full-text search over history (see search_history())
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX messages_session_idx ON public.messages (session_id, created_at);
+CREATE INDEX messages_parent_idx ON public.messages (parent_id);
+CREATE INDEX messages_user_idx ON public.messages (user_id, created_at);
+CREATE INDEX messages_content_search_idx ON public.messages USING GIN (content_search);
+
+-- Title and one-paragraph summary of each thread (messages sharing a session_id),
+-- written once by the 'summarize' edge function after the thread's first answer,
+-- paid for by that answer's search (see usage_ledger).
+-- A title the user renamed is never replaced. Threads without a row show their
+-- first question instead.
+CREATE TABLE public.threads (
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  session_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  summary TEXT,
+  renamed BOOLEAN DEFAULT false NOT NULL, -- The title was set by the user
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  PRIMARY KEY (user_id, session_id)
+);
+
+-- Public links to a thread. Each row is a snapshot of the turns shown when the
+-- thread was shared, copied out of messages, so later turns, edits or deletes
+-- don't change what the link shows. Revoking a link deletes its row. The slug
+-- is random, and rows are only readable one slug at a time through
+-- get_shared_thread(), so links can't be listed or guessed.
+CREATE TABLE public.shared_threads (
+  slug TEXT DEFAULT replace(uuid_generate_v4()::text, '-', '') PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  session_id TEXT NOT NULL,
+  title TEXT NOT NULL, -- First query of the snapshot
+  messages JSONB NOT NULL, -- [{ role, content, sources, grounding, mode, ungroundedReason }], oldest first
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
 );
 
+CREATE INDEX shared_threads_session_idx ON public.shared_threads (user_id, session_id);
+
+-- Snapshot the caller's turns p_message_ids (in that order) of thread p_session_id
+-- and return the new link's slug. Turns that aren't the caller's are skipped.
+CREATE OR REPLACE FUNCTION public.share_thread(p_session_id TEXT, p_message_ids UUID[])
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_messages JSONB;
+  v_slug TEXT;
+BEGIN
+  IF public.session_uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to share threads';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'role', m.role,
+    'content', m.content,
+    'sources', m.sources,
+    'grounding', m.grounding,
+    'mode', m.mode,
+    'ungroundedReason', m.ungrounded_reason
+  ) ORDER BY ids.position)
+  INTO v_messages
+  FROM unnest(p_message_ids) WITH ORDINALITY AS ids(id, position)
+  JOIN public.messages m ON m.id = ids.id
+  WHERE m.user_id = public.session_uid() AND m.session_id = p_session_id;
+
+  IF v_messages IS NULL THEN
+    RAISE EXCEPTION 'Nothing to share in this thread';
+  END IF;
+
+  INSERT INTO public.shared_threads (user_id, session_id, title, messages)
+  VALUES (public.session_uid(), p_session_id, left(v_messages->0->>'content', 200), v_messages)
+  RETURNING slug INTO v_slug;
+  RETURN v_slug;
+END;
+$$;
+
+-- The read-only view of a link, for anyone who has it (signed in or not)
+CREATE OR REPLACE FUNCTION public.get_shared_thread(p_slug TEXT)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object('title', title, 'messages', messages, 'createdAt', created_at)
+  FROM public.shared_threads
+  WHERE slug = p_slug;
+$$;
+
 -- =============================================================================
 -- 5. Create WORKSPACES Table (Replaces Projects)
 -- Stores Research Collections
@@ -53,31 +260,384 @@ CREATE TABLE public.workspaces (
   user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
   name TEXT NOT NULL,
   description TEXT,
+  instructions TEXT DEFAULT '', -- Extra model instructions for threads started in this workspace
   status TEXT DEFAULT 'active',
   last_modified TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
   created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
 );
 
 -- =============================================================================
--- 6. Security Policies (Row Level Security)
+-- 6. Create WORKSPACE CONTENT Tables
+-- Threads (by messages.session_id), pinned sources and free-form notes saved
+-- into a workspace. user_id is repeated on every row so RLS stays a simple
+-- ownership check; rows can only be added to the user's own workspaces.
+-- =============================================================================
+CREATE TABLE public.workspace_threads (
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  session_id TEXT NOT NULL,
+  title TEXT NOT NULL, -- First query of the thread
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  PRIMARY KEY (workspace_id, session_id)
+);
+
+CREATE TABLE public.workspace_sources (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  uri TEXT NOT NULL,
+  session_id TEXT, -- Thread the source was pinned from
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  UNIQUE (workspace_id, uri)
+);
+
+CREATE TABLE public.workspace_notes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now()),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+-- One page of the caller's threads for the History view, most recently active
+-- first, with the title and summary from threads (or the first question).
+-- p_query is matched against every turn with web search syntax ("quoted
+-- phrases", or, -word) and snippet is the newest match with <mark> around the
+-- matched words. p_from / p_to bound when a thread had activity and
+-- p_workspace_id keeps the threads saved into that workspace. total counts
+-- every matching thread, for paging. Runs as the caller, so RLS applies too.
+CREATE OR REPLACE FUNCTION public.search_history(
+  p_query TEXT DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_workspace_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  session_id TEXT,
+  title TEXT,
+  summary TEXT,
+  snippet TEXT,
+  turns INTEGER,
+  ungrounded_reason TEXT,
+  last_active TIMESTAMPTZ,
+  total BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH tsq AS (
+    SELECT CASE WHEN btrim(coalesce(p_query, '')) <> '' THEN websearch_to_tsquery('english', p_query) END AS query
+  ),
+  matched AS (
+    SELECT m.session_id, max(m.created_at) AS last_active
+    FROM public.messages m, tsq
+    WHERE m.user_id = public.session_uid()
+      AND m.session_id IS NOT NULL
+      AND (tsq.query IS NULL OR m.content_search @@ tsq.query)
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+      AND (p_workspace_id IS NULL OR m.session_id IN (
+        SELECT wt.session_id FROM public.workspace_threads wt
+        WHERE wt.workspace_id = p_workspace_id AND wt.user_id = public.session_uid()
+      ))
+    GROUP BY m.session_id
+  )
+  SELECT
+    t.session_id,
+    coalesce(th.title, first_turn.content, 'Untitled thread'),
+    th.summary,
+    hit.snippet,
+    (SELECT count(*) FROM public.messages q
+     WHERE q.user_id = public.session_uid() AND q.session_id = t.session_id AND q.role = 'user')::INTEGER,
+    (SELECT u.ungrounded_reason FROM public.messages u
+     WHERE u.user_id = public.session_uid() AND u.session_id = t.session_id AND u.ungrounded_reason IS NOT NULL
+     ORDER BY u.created_at DESC LIMIT 1),
+    t.last_active,
+    count(*) OVER ()
+  FROM matched t
+  CROSS JOIN tsq
+  LEFT JOIN public.threads th ON th.user_id = public.session_uid() AND th.session_id = t.session_id
+  LEFT JOIN LATERAL (
+    SELECT f.content FROM public.messages f
+    WHERE f.user_id = public.session_uid() AND f.session_id = t.session_id AND f.role = 'user'
+    ORDER BY f.created_at LIMIT 1
+  ) first_turn ON true
+  LEFT JOIN LATERAL (
+    SELECT ts_headline('english', h.content, tsq.query, 'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12') AS snippet
+    FROM public.messages h
+    WHERE h.user_id = public.session_uid() AND h.session_id = t.session_id AND h.content_search @@ tsq.query
+    ORDER BY h.created_at DESC LIMIT 1
+  ) hit ON tsq.query IS NOT NULL
+  ORDER BY t.last_active DESC, t.session_id
+  LIMIT least(greatest(p_limit, 1), 100) OFFSET greatest(p_offset, 0);
+$$;
+
+-- =============================================================================
+-- 7. Create USAGE LEDGER Table
+-- One 'search' row per query answered by the 'search' edge function. Quotas
+-- are counted over the current calendar month, so usage resets on the 1st of
+-- each month. subject is the user id, or 'guest:<hashed ip>' for signed-out
+-- searches. Calls paid for by a server-issued token (a retry, follow-up
+-- suggestions, the steps of a research run, a thread's summary) are recorded with the token's role as kind and its id as
+-- token_id; they don't count against the quota, but each token only pays for
+-- a fixed number of them.
+-- =============================================================================
+CREATE TABLE public.usage_ledger (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  subject TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  kind TEXT DEFAULT 'search' NOT NULL,
+  token_id TEXT, -- jti of the token that paid for the call (kinds other than 'search')
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT timezone('utc'::text, now())
+);
+
+CREATE INDEX usage_ledger_subject_idx ON public.usage_ledger (subject, created_at);
+CREATE INDEX usage_ledger_token_idx ON public.usage_ledger (token_id) WHERE token_id IS NOT NULL;
+
+-- Atomically check the subject's plan limit and record one query.
+-- Called by the 'search' edge function with the service role only.
+CREATE OR REPLACE FUNCTION public.consume_query(p_subject TEXT, p_user_id UUID, p_plan TEXT DEFAULT 'Guest')
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan TEXT := p_plan;
+  v_limit INTEGER;
+  v_used INTEGER;
+  v_allowed BOOLEAN;
+  v_period_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now());
+BEGIN
+  IF p_user_id IS NOT NULL THEN
+    SELECT plan INTO v_plan FROM public.users WHERE id = p_user_id;
+  END IF;
+  SELECT monthly_query_limit INTO v_limit FROM public.plans WHERE name = v_plan;
+
+  -- Serialise concurrent queries from the same subject so the limit cannot be overshot
+  PERFORM pg_advisory_xact_lock(hashtext(p_subject));
+  SELECT count(*) INTO v_used FROM public.usage_ledger
+  WHERE subject = p_subject AND kind = 'search' AND created_at >= v_period_start;
+
+  v_allowed := v_used < v_limit;
+  IF v_allowed THEN
+    INSERT INTO public.usage_ledger (subject, user_id) VALUES (p_subject, p_user_id);
+    v_used := v_used + 1;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'plan', v_plan,
+    'used', v_used,
+    'limit', v_limit,
+    'resetsAt', v_period_start + interval '1 month'
+  );
+END;
+$$;
+
+-- Record one call paid for by token p_token_id, unless p_limit calls were
+-- already recorded under it. Returns whether the call may go ahead.
+-- Called by the edge functions with the service role only (see _shared/tokens.ts).
+CREATE OR REPLACE FUNCTION public.spend_token(p_subject TEXT, p_user_id UUID, p_kind TEXT, p_token_id TEXT, p_limit INTEGER DEFAULT 1)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_spent INTEGER;
+BEGIN
+  -- Serialise concurrent calls with the same token so it can't be spent twice
+  PERFORM pg_advisory_xact_lock(hashtext(p_token_id));
+  SELECT count(*) INTO v_spent FROM public.usage_ledger WHERE token_id = p_token_id;
+  IF v_spent >= p_limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.usage_ledger (subject, user_id, kind, token_id) VALUES (p_subject, p_user_id, p_kind, p_token_id);
+  RETURN true;
+END;
+$$;
+
+-- The signed-in user's usage for the current period (Account view)
+CREATE OR REPLACE FUNCTION public.get_my_usage()
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'plan', u.plan,
+    'used', (SELECT count(*) FROM public.usage_ledger l
+             WHERE l.subject = u.id::text AND l.kind = 'search' AND l.created_at >= date_trunc('month', now())),
+    'limit', p.monthly_query_limit,
+    'resetsAt', date_trunc('month', now()) + interval '1 month'
+  )
+  FROM public.users u JOIN public.plans p ON p.name = u.plan
+  WHERE u.id = public.session_uid();
+$$;
+
+-- Ledger rows from before the previous period are never counted again.
+-- Schedule with pg_cron if enabled:
+--   SELECT cron.schedule('prune-usage-ledger', '0 3 1 * *', 'SELECT public.prune_usage_ledger()');
+CREATE OR REPLACE FUNCTION public.prune_usage_ledger()
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM public.usage_ledger WHERE created_at < date_trunc('month', now()) - interval '1 month';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_query(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.spend_token(TEXT, UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_usage_ledger() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_my_usage() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_usage() TO authenticated;
+
+-- TRENDING QUESTIONS: the home page suggestions of guests and users without
+-- history, written from what people are searching the web for today (see the
+-- 'search' edge function's 'trends' step). One row, shared by every caller and
+-- refreshed by at most one request at a time once it is older than an hour.
+-- Read and written by the service role only.
+CREATE TABLE public.trending_questions (
+  id INTEGER DEFAULT 1 PRIMARY KEY CHECK (id = 1),
+  questions JSONB DEFAULT '[]'::jsonb NOT NULL,
+  refreshed_at TIMESTAMP WITH TIME ZONE,
+  refreshing_since TIMESTAMP WITH TIME ZONE -- Set while a request is writing new questions
+);
+
+INSERT INTO public.trending_questions (id) VALUES (1);
+
+-- Claim the refresh of questions older than p_max_age_seconds. Returns false
+-- while they are fresh or another request claimed them less than
+-- p_timeout_seconds ago, so concurrent callers keep serving the stored ones.
+CREATE OR REPLACE FUNCTION public.claim_trends_refresh(p_max_age_seconds INTEGER, p_timeout_seconds INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH claimed AS (
+    UPDATE public.trending_questions SET refreshing_since = now()
+    WHERE id = 1
+      AND (refreshed_at IS NULL OR refreshed_at < now() - make_interval(secs => p_max_age_seconds))
+      AND (refreshing_since IS NULL OR refreshing_since < now() - make_interval(secs => p_timeout_seconds))
+    RETURNING id
+  )
+  SELECT EXISTS (SELECT 1 FROM claimed);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_trends_refresh(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- 8. Security Policies (Row Level Security)
 -- =============================================================================
--- Since your app uses Custom Auth, we enable RLS but set policies to 'true' 
--- so the App can manage logic.
+-- The 'auth' edge function issues JWTs signed with the project's JWT secret,
+-- with `sub` = users.id and role 'authenticated'. session_uid() reads that
+-- claim (see section 3), so every policy below only lets a signed-in user touch
+-- their own rows, and only with a token issued since their last password
+-- change. It is wrapped in a sub-select so it runs once per statement, not once
+-- per row.
+-- Guests (anon key only) get no table access at all. Accounts are created and
+-- passwords checked by the edge function using the service role, which
+-- bypasses RLS.
+
+REVOKE ALL ON public.users, public.messages, public.threads, public.shared_threads, public.workspaces,
+  public.workspace_threads, public.workspace_sources, public.workspace_notes,
+  public.usage_ledger, public.user_recovery_codes, public.user_preferences FROM anon;
 
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow Public Access for Custom Auth" ON public.users 
-FOR ALL USING (true) WITH CHECK (true);
+-- Never expose password hashes or TOTP secrets to clients, even for the user's own row
+REVOKE ALL ON public.users FROM authenticated;
+GRANT SELECT (id, streekx_id, full_name, avatar_url, bio, phone, gender, dob, plan, totp_enabled, created_at) ON public.users TO authenticated;
+GRANT UPDATE (full_name, avatar_url, bio, phone) ON public.users TO authenticated;
+
+CREATE POLICY "Users can read their own profile" ON public.users
+FOR SELECT TO authenticated USING (id = (SELECT public.session_uid()));
+CREATE POLICY "Users can update their own profile" ON public.users
+FOR UPDATE TO authenticated USING (id = (SELECT public.session_uid())) WITH CHECK (id = (SELECT public.session_uid()));
+
+ALTER TABLE public.user_preferences ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own preferences" ON public.user_preferences
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid())) WITH CHECK (user_id = (SELECT public.session_uid()));
+
+-- Recovery codes are only handled by the 'auth' edge function (service role)
+ALTER TABLE public.user_recovery_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.user_recovery_codes FROM authenticated;
 
 ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow Public Access for Custom Auth" ON public.messages 
-FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Users can manage their own messages" ON public.messages
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid())) WITH CHECK (user_id = (SELECT public.session_uid()));
+
+ALTER TABLE public.threads ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own threads" ON public.threads
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid())) WITH CHECK (user_id = (SELECT public.session_uid()));
+
+-- Links are created only through share_thread() so a snapshot always matches the
+-- stored turns; owners can list and revoke (delete) theirs, never edit them
+ALTER TABLE public.shared_threads ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.shared_threads FROM authenticated;
+GRANT SELECT (slug, session_id, title, created_at), DELETE ON public.shared_threads TO authenticated;
+CREATE POLICY "Users can read their own shared threads" ON public.shared_threads
+FOR SELECT TO authenticated USING (user_id = (SELECT public.session_uid()));
+CREATE POLICY "Users can revoke their own shared threads" ON public.shared_threads
+FOR DELETE TO authenticated USING (user_id = (SELECT public.session_uid()));
+
+REVOKE EXECUTE ON FUNCTION public.share_thread(TEXT, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.share_thread(TEXT, UUID[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_shared_thread(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_thread(TEXT) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.search_history(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_history(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, UUID, INTEGER, INTEGER) TO authenticated;
 
 ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
-CREATE POLICY "Allow Public Access for Custom Auth" ON public.workspaces 
-FOR ALL USING (true) WITH CHECK (true);
+CREATE POLICY "Users can manage their own workspaces" ON public.workspaces
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid())) WITH CHECK (user_id = (SELECT public.session_uid()));
+
+ALTER TABLE public.workspace_threads ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own workspace threads" ON public.workspace_threads
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid()))
+WITH CHECK (user_id = (SELECT public.session_uid()) AND workspace_id IN (SELECT id FROM public.workspaces WHERE user_id = (SELECT public.session_uid())));
+
+ALTER TABLE public.workspace_sources ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own workspace sources" ON public.workspace_sources
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid()))
+WITH CHECK (user_id = (SELECT public.session_uid()) AND workspace_id IN (SELECT id FROM public.workspaces WHERE user_id = (SELECT public.session_uid())));
+
+ALTER TABLE public.workspace_notes ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can manage their own workspace notes" ON public.workspace_notes
+FOR ALL TO authenticated USING (user_id = (SELECT public.session_uid()))
+WITH CHECK (user_id = (SELECT public.session_uid()) AND workspace_id IN (SELECT id FROM public.workspaces WHERE user_id = (SELECT public.session_uid())));
+
+-- Plan limits are public; trending questions and the ledger are written only
+-- by the service role
+ALTER TABLE public.plans ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.plans FROM anon, authenticated;
+GRANT SELECT ON public.plans TO anon, authenticated;
+CREATE POLICY "Plans are readable by everyone" ON public.plans
+FOR SELECT USING (true);
+
+ALTER TABLE public.trending_questions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.trending_questions FROM anon, authenticated;
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.usage_ledger FROM authenticated;
+GRANT SELECT ON public.usage_ledger TO authenticated;
+CREATE POLICY "Users can read their own usage" ON public.usage_ledger
+FOR SELECT TO authenticated USING (user_id = (SELECT public.session_uid()));
 
 -- =============================================================================
--- 7. Enable Real-time
--- CRITICAL: This allows the frontend to update instantly when data changes
+-- 9. Enable Real-time
+-- CRITICAL: This allows the frontend to update instantly when data changes.
+-- postgres_changes events are filtered by the RLS policies above.
 -- =============================================================================
-CREATE PUBLICATION supabase_realtime FOR TABLE public.workspaces, public.messages, public.users;
\ No newline at end of file
+CREATE PUBLICATION supabase_realtime FOR TABLE public.workspaces, public.messages, public.threads, public.users,
+  public.workspace_threads, public.workspace_sources, public.workspace_notes, public.user_preferences;
\ No newline at end of file
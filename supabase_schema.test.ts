@@ -0,0 +1,247 @@
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Row Level Security of supabase_schema.sql, checked against PGlite (Postgres compiled to
+// WebAssembly, run in-process) so it needs no Supabase project or Docker. The setup below
+// stands in for what Supabase provides: the anon and authenticated roles with its default
+// grants, and auth.jwt() / auth.uid() reading the request's JWT claims the way PostgREST
+// sets them. Every check runs as one of the two seeded users, who try to read and write
+// each other's rows in every table.
+
+const SUPABASE_SETUP = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  GRANT USAGE ON SCHEMA public TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated;
+
+  CREATE SCHEMA auth;
+  GRANT USAGE ON SCHEMA auth TO anon, authenticated;
+  CREATE FUNCTION auth.jwt() RETURNS JSONB LANGUAGE sql STABLE AS $$
+    SELECT coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::JSONB
+  $$;
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql STABLE AS $$
+    SELECT nullif(auth.jwt()->>'sub', '')::UUID
+  $$;
+`;
+
+const ALICE = '00000000-0000-4000-8000-00000000000a';
+const BOB = '00000000-0000-4000-8000-00000000000b';
+const CAROL = '00000000-0000-4000-8000-00000000000c'; // Changed her password after signing in
+
+const WORKSPACE = { [ALICE]: '10000000-0000-4000-8000-00000000000a', [BOB]: '10000000-0000-4000-8000-00000000000b' };
+const MESSAGE = { [ALICE]: '20000000-0000-4000-8000-00000000000a', [BOB]: '20000000-0000-4000-8000-00000000000b' };
+
+// One row of everything per user, written as the service role would (bypassing RLS)
+const seed = (userId: string, name: string) => `
+  INSERT INTO public.users (id, streekx_id, password_hash, full_name, totp_secret) VALUES ('${userId}', '${name}', 'hash', '${name}', 'SECRET');
+  INSERT INTO public.user_preferences (user_id) VALUES ('${userId}');
+  INSERT INTO public.user_recovery_codes (user_id, code_hash) VALUES ('${userId}', 'code');
+  INSERT INTO public.messages (id, user_id, content, session_id) VALUES ('${MESSAGE[userId]}', '${userId}', '${name} asks about batteries', 'session-${name}');
+  INSERT INTO public.threads (user_id, session_id, title) VALUES ('${userId}', 'session-${name}', 'Batteries');
+  INSERT INTO public.shared_threads (slug, user_id, session_id, title, messages) VALUES ('slug-${name}', '${userId}', 'session-${name}', 'Batteries', '[]');
+  INSERT INTO public.workspaces (id, user_id, name) VALUES ('${WORKSPACE[userId]}', '${userId}', 'Research');
+  INSERT INTO public.workspace_threads (workspace_id, user_id, session_id, title) VALUES ('${WORKSPACE[userId]}', '${userId}', 'session-${name}', 'Batteries');
+  INSERT INTO public.workspace_sources (workspace_id, user_id, title, uri) VALUES ('${WORKSPACE[userId]}', '${userId}', 'Review', 'https://example.com/${name}');
+  INSERT INTO public.workspace_notes (workspace_id, user_id, content) VALUES ('${WORKSPACE[userId]}', '${userId}', 'Note');
+  INSERT INTO public.usage_ledger (subject, user_id) VALUES ('${userId}', '${userId}');
+`;
+
+let db: PGlite;
+
+beforeAll(async () => {
+  db = await PGlite.create({ extensions: { uuid_ossp } });
+  await db.exec(SUPABASE_SETUP);
+  await db.exec(readFileSync(new URL('./supabase_schema.sql', import.meta.url), 'utf8'));
+  await db.exec(seed(ALICE, 'alice') + seed(BOB, 'bob'));
+  await db.exec(`INSERT INTO public.users (id, streekx_id, password_hash, password_changed_at) VALUES ('${CAROL}', 'carol', 'hash', now());`);
+  await db.exec(`INSERT INTO public.messages (user_id, content, session_id) VALUES ('${CAROL}', 'Carol asks', 'session-carol');`);
+}, 60000);
+
+afterAll(() => db?.close());
+
+const now = () => Math.floor(Date.now() / 1000);
+
+// Run `sql` in a transaction as a signed-in user (a session token issued at `iat`), or as a
+// guest with only the anon key. Nothing it changes is kept.
+const as = async <T = Record<string, unknown>>(userId: string | null, sql: string, params: unknown[] = [], iat = now()) => {
+  let rows: T[] = [];
+  await db.transaction(async (tx) => {
+    await tx.query(`SELECT set_config('request.jwt.claims', $1, true)`, [userId ? JSON.stringify({ sub: userId, role: 'authenticated', iat }) : '']);
+    await tx.exec(`SET LOCAL ROLE ${userId ? 'authenticated' : 'anon'}`);
+    rows = (await tx.query<T>(sql, params)).rows;
+    await tx.rollback();
+  });
+  return rows;
+};
+
+const count = async (table: string, userId: string) =>
+  (await db.query<{ n: number }>(`SELECT count(*)::INTEGER AS n FROM public.${table} WHERE user_id = $1`, [userId])).rows[0].n;
+
+// Tables users read and write themselves: a new row for `owner` (in `workspace`), and a change to one
+const OWNED_TABLES: { table: string; insert: (owner: string, workspace: string) => string; update: string }[] = [
+  { table: 'user_preferences', insert: owner => `INSERT INTO public.user_preferences (user_id) VALUES ('${owner}') ON CONFLICT (user_id) DO UPDATE SET safe_search = false`, update: 'safe_search = false' },
+  { table: 'messages', insert: owner => `INSERT INTO public.messages (user_id, content, session_id) VALUES ('${owner}', 'Hi', 's')`, update: `content = 'Changed'` },
+  { table: 'threads', insert: owner => `INSERT INTO public.threads (user_id, session_id, title) VALUES ('${owner}', 'new-session', 'Title')`, update: `title = 'Changed'` },
+  { table: 'workspaces', insert: owner => `INSERT INTO public.workspaces (user_id, name) VALUES ('${owner}', 'Mine')`, update: `name = 'Changed'` },
+  {
+    table: 'workspace_threads',
+    insert: (owner, workspace) => `INSERT INTO public.workspace_threads (workspace_id, user_id, session_id, title) VALUES ('${workspace}', '${owner}', 'new-session', 'Title')`,
+    update: `title = 'Changed'`
+  },
+  {
+    table: 'workspace_sources',
+    insert: (owner, workspace) => `INSERT INTO public.workspace_sources (workspace_id, user_id, title, uri) VALUES ('${workspace}', '${owner}', 'Page', 'https://example.com/new')`,
+    update: `title = 'Changed'`
+  },
+  {
+    table: 'workspace_notes',
+    insert: (owner, workspace) => `INSERT INTO public.workspace_notes (workspace_id, user_id, content) VALUES ('${workspace}', '${owner}', 'Note')`,
+    update: `content = 'Changed'`
+  }
+];
+
+const RLS_VIOLATION = /row-level security/;
+const PERMISSION_DENIED = /permission denied/;
+
+describe.each(OWNED_TABLES)('$table', ({ table, insert, update }) => {
+  it("shows a user only their own rows", async () => {
+    const rows = await as<{ user_id: string }>(ALICE, `SELECT user_id FROM public.${table}`);
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.every(row => row.user_id === ALICE)).toBe(true);
+  });
+
+  it("lets a user add their own rows", async () => {
+    await expect(as(ALICE, `${insert(ALICE, WORKSPACE[ALICE])} RETURNING user_id`)).resolves.toEqual([{ user_id: ALICE }]);
+  });
+
+  it("refuses rows added for another user", async () => {
+    await expect(as(ALICE, insert(BOB, WORKSPACE[BOB]))).rejects.toThrow(RLS_VIOLATION);
+  });
+
+  it("leaves another user's rows unchanged and undeleted", async () => {
+    expect(await as(ALICE, `UPDATE public.${table} SET ${update} WHERE user_id = $1 RETURNING user_id`, [BOB])).toEqual([]);
+    expect(await as(ALICE, `DELETE FROM public.${table} WHERE user_id = $1 RETURNING user_id`, [BOB])).toEqual([]);
+    expect(await count(table, BOB)).toBe(1);
+  });
+
+  it("refuses handing a row over to another user", async () => {
+    await expect(as(ALICE, `UPDATE public.${table} SET user_id = $1 WHERE user_id = $2`, [BOB, ALICE])).rejects.toThrow(RLS_VIOLATION);
+  });
+
+  it("gives guests no access", async () => {
+    await expect(as(null, `SELECT * FROM public.${table}`)).rejects.toThrow(PERMISSION_DENIED);
+  });
+});
+
+describe.each(['workspace_threads', 'workspace_sources', 'workspace_notes'])('%s of another user\'s workspace', table => {
+  const { insert } = OWNED_TABLES.find(t => t.table === table)!;
+
+  it("can't be added, even as the user's own rows", async () => {
+    await expect(as(ALICE, insert(ALICE, WORKSPACE[BOB]))).rejects.toThrow(RLS_VIOLATION);
+  });
+
+  it("can't be moved there", async () => {
+    await expect(as(ALICE, `UPDATE public.${table} SET workspace_id = $1 WHERE user_id = $2`, [WORKSPACE[BOB], ALICE]))
+      .rejects.toThrow(RLS_VIOLATION);
+  });
+});
+
+describe('users', () => {
+  it("shows a user only their own profile, without password hashes or TOTP secrets", async () => {
+    expect(await as(ALICE, 'SELECT id, streekx_id FROM public.users')).toEqual([{ id: ALICE, streekx_id: 'alice' }]);
+    await expect(as(ALICE, 'SELECT password_hash FROM public.users')).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'SELECT totp_secret FROM public.users')).rejects.toThrow(PERMISSION_DENIED);
+  });
+
+  it("lets a user edit only their own profile fields", async () => {
+    expect(await as(ALICE, `UPDATE public.users SET bio = 'Hi' WHERE id = $1 RETURNING id`, [ALICE])).toEqual([{ id: ALICE }]);
+    expect(await as(ALICE, `UPDATE public.users SET bio = 'Hacked' WHERE id = $1 RETURNING id`, [BOB])).toEqual([]);
+    await expect(as(ALICE, `UPDATE public.users SET plan = 'Enterprise' WHERE id = $1`, [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, `UPDATE public.users SET password_hash = 'x' WHERE id = $1`, [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+  });
+
+  it("refuses creating or deleting accounts", async () => {
+    await expect(as(ALICE, `INSERT INTO public.users (streekx_id, password_hash) VALUES ('mallory', 'x')`)).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'DELETE FROM public.users WHERE id = $1', [BOB])).rejects.toThrow(PERMISSION_DENIED);
+  });
+
+  it("gives guests no access", async () => {
+    await expect(as(null, 'SELECT id FROM public.users')).rejects.toThrow(PERMISSION_DENIED);
+  });
+});
+
+describe('user_recovery_codes', () => {
+  it("can't be read or written by anyone but the service role", async () => {
+    await expect(as(ALICE, 'SELECT * FROM public.user_recovery_codes WHERE user_id = $1', [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, `INSERT INTO public.user_recovery_codes (user_id, code_hash) VALUES ($1, 'x')`, [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'DELETE FROM public.user_recovery_codes WHERE user_id = $1', [BOB])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(null, 'SELECT * FROM public.user_recovery_codes')).rejects.toThrow(PERMISSION_DENIED);
+  });
+});
+
+describe('shared_threads', () => {
+  it("lists and revokes only the user's own links", async () => {
+    expect(await as(ALICE, 'SELECT slug FROM public.shared_threads')).toEqual([{ slug: 'slug-alice' }]);
+    expect(await as(ALICE, 'DELETE FROM public.shared_threads WHERE slug = $1 RETURNING slug', ['slug-bob'])).toEqual([]);
+    expect(await count('shared_threads', BOB)).toBe(1);
+  });
+
+  it("are only written by share_thread(), from the caller's own turns", async () => {
+    await expect(as(ALICE, `INSERT INTO public.shared_threads (user_id, session_id, title, messages) VALUES ($1, 's', 't', '[]')`, [ALICE]))
+      .rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, `UPDATE public.shared_threads SET title = 'x' WHERE user_id = $1`, [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'SELECT public.share_thread($1, $2)', ['session-bob', [MESSAGE[BOB]]])).rejects.toThrow(/Nothing to share/);
+    expect(await as(ALICE, 'SELECT public.share_thread($1, $2) IS NOT NULL AS shared', ['session-alice', [MESSAGE[ALICE]]])).toEqual([{ shared: true }]);
+  });
+
+  it("are readable one slug at a time by anyone with the link", async () => {
+    await expect(as(null, 'SELECT * FROM public.shared_threads')).rejects.toThrow(PERMISSION_DENIED);
+    const [{ thread }] = await as<{ thread: { title: string } }>(null, 'SELECT public.get_shared_thread($1) AS thread', ['slug-bob']);
+    expect(thread.title).toBe('Batteries');
+  });
+});
+
+describe('usage_ledger', () => {
+  it("shows a user only their own usage and can't be written by them", async () => {
+    expect(await as(ALICE, 'SELECT user_id FROM public.usage_ledger')).toEqual([{ user_id: ALICE }]);
+    await expect(as(ALICE, 'INSERT INTO public.usage_ledger (subject, user_id) VALUES ($1, $2)', [ALICE, ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'DELETE FROM public.usage_ledger WHERE user_id = $1', [ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(null, 'SELECT * FROM public.usage_ledger')).rejects.toThrow(PERMISSION_DENIED);
+  });
+
+  it("is only counted by the service role", async () => {
+    await expect(as(ALICE, 'SELECT public.consume_query($1, $2)', [ALICE, ALICE])).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, `SELECT public.spend_token($1, $2, 'search_retry', 'token')`, [ALICE, ALICE])).rejects.toThrow(PERMISSION_DENIED);
+  });
+});
+
+describe('plans and trending_questions', () => {
+  it("show plan limits to everyone, read-only", async () => {
+    expect((await as(null, 'SELECT name FROM public.plans')).length).toBeGreaterThan(0);
+    await expect(as(ALICE, `UPDATE public.plans SET monthly_query_limit = 1000000`)).rejects.toThrow(PERMISSION_DENIED);
+  });
+
+  it("keep trending questions to the service role", async () => {
+    await expect(as(null, 'SELECT * FROM public.trending_questions')).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, `UPDATE public.trending_questions SET questions = '[]'`)).rejects.toThrow(PERMISSION_DENIED);
+    await expect(as(ALICE, 'SELECT public.claim_trends_refresh(0, 0)')).rejects.toThrow(PERMISSION_DENIED);
+  });
+});
+
+describe('session tokens', () => {
+  it("issued before the last password change see nothing, later ones do", async () => {
+    expect(await as(CAROL, 'SELECT content FROM public.messages', [], now() - 3600)).toEqual([]);
+    expect(await as(CAROL, 'SELECT content FROM public.messages', [], now() + 60)).toEqual([{ content: 'Carol asks' }]);
+  });
+});
+
+describe('search_history', () => {
+  it("only searches the caller's threads, even given another user's workspace", async () => {
+    const rows = await as<{ session_id: string }>(ALICE, 'SELECT session_id FROM public.search_history(p_workspace_id => $1)', [WORKSPACE[BOB]]);
+    expect(rows).toEqual([]);
+    expect(await as(ALICE, 'SELECT session_id FROM public.search_history()')).toEqual([{ session_id: 'session-alice' }]);
+  });
+});
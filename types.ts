@@ -4,11 +4,84 @@ export interface SearchSource {
   uri: string;
 }
 
+// A span of an answer backed by grounding sources (offsets index into ChatMessage.content)
+export interface GroundingSegment {
+  start: number;
+  end: number;
+  text: string;
+  sourceIndices: number[]; // Indices into ChatMessage.sources
+  confidence: number[]; // One score (0-1) per entry in sourceIndices
+}
+
+// Why an answer couldn't be produced (shown as a card instead of answer text):
+//   'quota_exceeded'   - the plan's queries are used up
+//   'auth'             - the session expired or was rejected
+//   'safety_blocked'   - the question or answer was blocked by the model's safety filters
+//   'tool_unavailable' - web search couldn't be used
+//   'rate_limited'     - the model provider is over its limits (not the user's plan)
+//   'network'          - the search function couldn't be reached
+//   'timeout'          - the answer took too long (or a research run expired)
+//   'server'           - anything else that went wrong in the search function
+export type SearchErrorCode = 'quota_exceeded' | 'auth' | 'safety_blocked' | 'tool_unavailable' | 'rate_limited' | 'network' | 'timeout' | 'server';
+
+export interface SearchFailure {
+  code: SearchErrorCode;
+  message: string;
+  retryable: boolean; // Asking again may well work
+  retryToken?: string; // Lets the search function answer the retry without counting it again
+}
+
+// Why an answer isn't backed by live web results:
+//   'search_unavailable' - live search couldn't be used, so the model answered from what it knows
+//   'no_results'         - the answer cites no web sources
+export type UngroundedReason = 'search_unavailable' | 'no_results';
+
+// Picked next to the search box; the search function maps each to a model, prompt and format
+export type SearchMode = 'quick' | 'deep' | 'academic' | 'code' | 'news';
+
 export interface ChatMessage {
+  id: string;
+  parentId: string | null; // The turn this one follows; null for the first question of a thread
   role: 'user' | 'model';
   content: string;
   sources?: SearchSource[];
+  segments?: GroundingSegment[];
+  searchQueries?: string[];
+  mode?: SearchMode;
+  research?: ResearchProgress; // Plan and step results of a Deep Research run
   isStreaming?: boolean;
+  stopped?: boolean; // The user stopped the answer part-way
+  error?: SearchFailure;
+  ungroundedReason?: UngroundedReason; // Set on answers not backed by live web results
+  retryToken?: string; // Asks a 'search_unavailable' answer's question again without counting it
+  followUps?: string[]; // Suggested next questions, shown as chips under the answer
+}
+
+// A public read-only link to a snapshot of a thread (see services/shareService.ts)
+export interface ThreadShare {
+  slug: string;
+  createdAt: string;
+}
+
+export interface SharedThread {
+  title: string;
+  messages: ChatMessage[]; // The shared branch, oldest first
+  createdAt: string;
+}
+
+export type ResearchStepStatus = 'pending' | 'running' | 'done' | 'failed';
+
+// One sub-question of a research run and what its grounded search found
+export interface ResearchStep {
+  question: string;
+  status: ResearchStepStatus;
+  findings?: string;
+  sourceCount?: number;
+}
+
+export interface ResearchProgress {
+  phase: 'planning' | 'researching' | 'writing' | 'done' | 'cancelled' | 'failed';
+  steps: ResearchStep[];
 }
 
 export interface UserProfile {
@@ -17,6 +90,7 @@ export interface UserProfile {
   bio: string;
   avatar: string;
   phone?: string;
+  totpEnabled?: boolean; // Two-factor auth with an authenticator app
 }
 
 // Renamed from Project to Workspace to match Perplexity-like structure
@@ -26,6 +100,43 @@ export interface Workspace {
   description: string;
   lastModified: string;
   status: 'active' | 'archived';
+  instructions: string; // Extra system instructions for threads started in this workspace
+}
+
+// Contents of a workspace, stored in the workspace_threads / workspace_sources / workspace_notes tables
+export interface WorkspaceThread {
+  sessionId: string;
+  title: string; // From the threads table when it has one, else as saved into the workspace
+  summary?: string;
+  addedAt: string;
+}
+
+export interface WorkspaceSource {
+  id: string;
+  title: string;
+  uri: string;
+  sessionId: string | null;
+}
+
+export interface WorkspaceNote {
+  id: string;
+  content: string;
+  updatedAt: string;
+}
+
+export interface WorkspaceContents {
+  threads: WorkspaceThread[];
+  sources: WorkspaceSource[];
+  notes: WorkspaceNote[];
+}
+
+// What a workspace-scoped search sends to the model as extra system context
+export interface WorkspaceContext {
+  name: string;
+  description: string;
+  instructions: string;
+  notes: string[];
+  sources: SearchSource[];
 }
 
 export interface UserPreferences {
@@ -35,20 +146,44 @@ export interface UserPreferences {
   dataSaver: boolean;
 }
 
+// The preferences the search function applies to the model call
+export type SearchPreferences = Pick<UserPreferences, 'safeSearch' | 'dataSaver'>;
+
 export interface AccountStats {
   plan: 'Free' | 'Pro' | 'Enterprise';
   queriesUsed: number;
   queriesLimit: number;
+  resetsAt?: string; // When queriesUsed goes back to 0 (start of next month)
   memberSince: string;
 }
 
+// Usage reported by the search edge function (plan is 'Guest' when signed out)
+export interface QuotaStatus {
+  plan: string;
+  used: number;
+  limit: number;
+  resetsAt: string;
+}
+
 export type ViewState = 'home' | 'search' | 'profile' | 'history' | 'workspace' | 'preferences' | 'account';
 
 // New type for the Intro/Auth flow
 export type AppPhase = 'splash' | 'onboarding' | 'auth-selection' | 'auth-form' | 'main';
 
+// A thread in History (see search_history() in the schema)
 export interface HistoryItem {
-  id: string;
+  sessionId: string;
+  title: string; // Generated or given by the user; the first question until then
+  summary?: string;
+  snippet?: string; // Newest turn matching the search, with <mark>…</mark> around the matched words
+  turns: number; // Questions asked, counting every version
+  date: string; // Last activity
+  ungrounded?: UngroundedReason; // An answer in the thread wasn't backed by live web results
+}
+
+export interface HistoryFilters {
   query: string;
-  date: string;
+  from: string; // 'YYYY-MM-DD' (local dates, both inclusive) or '' for no bound
+  to: string;
+  workspaceId: string; // '' for every thread
 }